@@ -0,0 +1,37 @@
+// server/gameServer.ts
+// Reference WebSocket server: one RoomHub (src/net/hub.ts) behind a WebSocket per client.
+import { randomUUID } from "node:crypto";
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import { createRoomHub } from "../src/net/hub";
+
+export type GameServerOptions = { port: number };
+
+export type GameServer = { port: number; close: () => Promise<void> };
+
+export function createGameServer(options: GameServerOptions): GameServer {
+    const wss = new WebSocketServer({ port: options.port });
+    const hub = createRoomHub({ newToken: randomUUID });
+    const sockets = new Set<WebSocket>();
+
+    wss.on("connection", (socket) => {
+        sockets.add(socket);
+        const conn = hub.connect((message) => {
+            if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+        });
+        socket.on("message", (data) => conn.receive(data.toString()));
+        socket.on("close", () => {
+            sockets.delete(socket);
+            conn.close();
+        });
+    });
+
+    return {
+        port: options.port,
+        close: () => {
+            hub.close();
+            for (const socket of sockets) socket.terminate();
+            return new Promise((resolve) => wss.close(() => resolve()));
+        },
+    };
+}
@@ -0,0 +1,7 @@
+// server/index.ts
+// Local reference server for online play: `npm run server` (PORT defaults to 8787)
+import { createGameServer } from "./gameServer";
+
+const port = Number(process.env.PORT ?? 8787);
+createGameServer({ port });
+console.log(`Flux Rounds server listening on ws://localhost:${port}`);
@@ -1,15 +1,79 @@
 // src/App.tsx
 import React from "react";
 import GameView from "./components/GameView";
+import ResumePrompt from "./components/ResumePrompt";
+import OnlineLobby from "./components/OnlineLobby";
+import SetupScreen from "./components/SetupScreen";
+import type { GameSetup, GameState, NewGameOptions } from "./game/state";
 import { newGame } from "./game/state";
+import { clearStorage, loadFromStorage, saveToStorage } from "./game/save";
+import { loadSession } from "./net/client";
+
+/** Settings of a resumed game for a rematch (its seed was random unless typed in, so it is not kept) */
+function setupOptions(setup: GameSetup): NewGameOptions {
+  return { seats: setup.seats, startDiscard: setup.startDiscard, rules: setup.rules };
+}
 
 export default function App() {
-  const [state, setState] = React.useState(() =>
-    newGame({
-      playerNames: ["Player 1", "Player 2"],
-      startDiscard: true,
-    })
+  const [saved, setSaved] = React.useState(() => {
+    const loaded = loadFromStorage(window.localStorage);
+    // a finished game is not worth resuming
+    if (loaded?.ok && loaded.value.status === "GAME_OVER") return null;
+    return loaded;
+  });
+  // null: on the setup screen
+  const [state, setState] = React.useState<GameState | null>(null);
+  // settings the setup screen starts from: the last game's, for a rematch
+  const [options, setOptions] = React.useState<NewGameOptions | undefined>(undefined);
+  // a reload during an online game goes straight back to that table
+  const [online, setOnline] = React.useState(() => loadSession(window.sessionStorage) !== null);
+
+  // Persist after every action; keep the old save untouched until the player decides on it.
+  React.useEffect(() => {
+    if (saved || !state) return;
+    saveToStorage(window.localStorage, state);
+  }, [saved, state]);
+
+  // GameView plays a game that exists; stable so its bot timer is not reset on every render
+  const setGame: React.Dispatch<React.SetStateAction<GameState>> = React.useCallback(
+    (update) => setState((prev) => (prev ? (typeof update === "function" ? update(prev) : update) : prev)),
+    []
   );
 
-  return <GameView state={state} setState={setState} />;
+  if (online) return <OnlineLobby onExit={() => setOnline(false)} />;
+
+  if (saved) {
+    return (
+      <ResumePrompt
+        saved={saved}
+        onResume={(resumed) => {
+          setState(resumed);
+          setOptions(setupOptions(resumed.setup));
+          setSaved(null);
+        }}
+        onNewGame={() => {
+          clearStorage(window.localStorage);
+          setState(null);
+          setSaved(null);
+        }}
+      />
+    );
+  }
+
+  if (!state) {
+    return (
+      <SetupScreen
+        initial={options}
+        onStart={(chosen) => {
+          setOptions(chosen);
+          setState(newGame(chosen));
+        }}
+        onPlayOnline={() => setOnline(true)}
+      />
+    );
+  }
+
+  return (
+    <GameView state={state} setState={setGame} onPlayOnline={() => setOnline(true)} onRematch={() => setState(null)} />
+  );
 }
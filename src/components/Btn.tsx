@@ -0,0 +1,26 @@
+// src/components/Btn.tsx
+import React from "react";
+
+export default function Btn(props: {
+    kind?: "primary" | "secondary" | "ghost";
+    className?: string;
+    disabled?: boolean;
+    onClick?: () => void;
+    children: React.ReactNode;
+}) {
+    const kind = props.kind ?? "secondary";
+    const base =
+        "inline-flex items-center justify-center rounded-xl px-4 py-2 text-sm font-semibold " +
+        "transition active:scale-[0.99] disabled:opacity-50 disabled:cursor-not-allowed";
+    const cls =
+        kind === "primary"
+            ? base + " bg-slate-100 text-slate-900 hover:bg-white"
+            : kind === "ghost"
+                ? base + " bg-transparent text-slate-200 hover:bg-slate-800/50 border border-slate-700/60"
+                : base + " bg-slate-800/70 text-slate-100 hover:bg-slate-800 border border-slate-700/60";
+    return (
+        <button className={`${cls} ${props.className ?? ""}`} disabled={props.disabled} onClick={props.onClick}>
+            {props.children}
+        </button>
+    );
+}
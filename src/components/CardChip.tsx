@@ -0,0 +1,22 @@
+// src/components/CardChip.tsx
+import type { Card, Rank } from "../game/types";
+import { rankLabel } from "../game/rules";
+
+type Props = {
+    card: Card;
+    isWild: boolean;
+    standsFor?: Rank | null; // rank a wild on the table stands for (meld assignment)
+};
+
+/** Compact card label used on the table (melds, piles, replay) */
+export default function CardChip({ card, isWild, standsFor }: Props) {
+    return (
+        <span
+            className={`text-xs px-2 py-1 rounded-lg border transition-all delay-150 ${isWild ? "border-amber-500/30 bg-amber-500/5 text-amber-200" : "border-slate-800 bg-slate-900/50 text-slate-300"}`}
+        >
+            {rankLabel(card.rank)}
+            <span className="ml-1 text-[8px] opacity-40">{card.suit.charAt(0)}</span>
+            {isWild && standsFor != null && <span className="ml-1 text-[10px] opacity-70">={rankLabel(standsFor)}</span>}
+        </span>
+    );
+}
@@ -8,8 +8,8 @@ type Props = {
     selected?: boolean;
     dimmed?: boolean;
     disabled?: boolean;
-    highlight?: "book" | "run" | null;
-    onClick: () => void;
+    highlight?: "book" | "run" | "invalid" | null; // "invalid": this card breaks the selected meld
+    onClick?: () => void; // none for cards only on show (spectators)
 };
 
 function suitAccent(suit: Card["suit"]) {
@@ -61,12 +61,14 @@ export default function CardTile({ card, isWild, selected, dimmed, disabled, hig
                 selected
                     ? (highlight === "book" ? "border-blue-400 shadow-[0_0_20px_rgba(96,165,250,0.3)]" :
                         highlight === "run" ? "border-emerald-400 shadow-[0_0_20px_rgba(52,211,153,0.3)]" :
-                            "border-white shadow-[0_0_20px_rgba(255,255,255,0.2)]") + " -translate-y-1 z-10 scale-[1.02]"
+                            highlight === "invalid" ? "border-rose-400 shadow-[0_0_20px_rgba(251,113,133,0.3)]" :
+                                "border-white shadow-[0_0_20px_rgba(255,255,255,0.2)]") + " -translate-y-1 z-10 scale-[1.02]"
                     : "border-slate-700/80",
                 dimmed ? "opacity-60 scale-[0.98]" : "opacity-100",
                 isWild ? "ring-1 ring-amber-400/50" : "",
                 (selected && highlight === "book") ? "ring-2 ring-blue-400/20" :
-                    (selected && highlight === "run") ? "ring-2 ring-emerald-400/20" : "",
+                    (selected && highlight === "run") ? "ring-2 ring-emerald-400/20" :
+                        (selected && highlight === "invalid") ? "ring-2 ring-rose-400/20" : "",
             ].join(" ")}
             title={card.id}
         >
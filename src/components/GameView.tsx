@@ -1,69 +1,50 @@
 // src/components/GameView.tsx
 import React from "react";
-import type { Card, MeldType, Suit, RoundRule } from "../game/types";
+import type { Card, MeldType } from "../game/types";
 import type { GameState } from "../game/state";
-import { FiveCrownsCompat, isWildRank, rankLabel } from "../game/rules";
-import {
-    drawOne,
-    discardOne,
-    takeDiscardTop,
-    recycleDiscardIntoDraw,
-    defaultRng,
-} from "../game/deck";
-import { nextRound, afterDiscard } from "../game/state";
-import { validateMeld, validateLayoff } from "../game/validator";
-
+import { leaderIndex } from "../game/state";
+import type { PlayerView, SpectatorOptions } from "../game/view";
+import { DEFAULT_SPECTATOR_OPTIONS, spectatorView, viewFor } from "../game/view";
+import { FiveCrownsCompat, isWildRank } from "../game/rules";
+import { defaultRng } from "../game/deck";
+import type { GameAction } from "../game/engine";
+import { applyAction, canLayOff } from "../game/engine";
+import { chooseBotAction } from "../game/bot";
+import { validateMeld } from "../game/validator";
+
+import Btn from "./Btn";
 import CardTile from "./CardTile";
+import MeldTable from "./MeldTable";
+import PassDeviceScreen from "./PassDeviceScreen";
+import ReplayViewer from "./ReplayViewer";
 import RulePanel from "./RulePanel";
-
-type Props = {
-    state: GameState;
-    setState: React.Dispatch<React.SetStateAction<GameState>>;
+import Scoreboard from "./Scoreboard";
+import SpectatorScreen from "./SpectatorScreen";
+
+/** Pause between bot actions so humans can follow what happened */
+const BOT_ACTION_DELAY_MS = 700;
+
+/** Online table: the server is the authority and only sends this client its own view */
+export type OnlineSeat = {
+    roomCode: string;
+    onAction: (action: GameAction) => void;
+    onLeave: () => void;
+    finished?: GameState; // the whole game, sent once it is over (replay)
 };
 
-function suitOrderIndex(suit: Suit): number {
-    return FiveCrownsCompat.suits.indexOf(suit);
-}
-
-function sortByRankThenSuit(hand: Card[]): Card[] {
-    return [...hand].sort((a, b) => {
-        if (a.rank !== b.rank) return (a.rank as number) - (b.rank as number);
-        return suitOrderIndex(a.suit) - suitOrderIndex(b.suit);
-    });
-}
-
-function sortBySuitThenRank(hand: Card[]): Card[] {
-    return [...hand].sort((a, b) => {
-        const sa = suitOrderIndex(a.suit);
-        const sb = suitOrderIndex(b.suit);
-        if (sa !== sb) return sa - sb;
-        return (a.rank as number) - (b.rank as number);
-    });
-}
-
-function Btn(props: {
-    kind?: "primary" | "secondary" | "ghost";
-    className?: string;
-    disabled?: boolean;
-    onClick?: () => void;
-    children: React.ReactNode;
-}) {
-    const kind = props.kind ?? "secondary";
-    const base =
-        "inline-flex items-center justify-center rounded-xl px-4 py-2 text-sm font-semibold " +
-        "transition active:scale-[0.99] disabled:opacity-50 disabled:cursor-not-allowed";
-    const cls =
-        kind === "primary"
-            ? base + " bg-slate-100 text-slate-900 hover:bg-white"
-            : kind === "ghost"
-                ? base + " bg-transparent text-slate-200 hover:bg-slate-800/50 border border-slate-700/60"
-                : base + " bg-slate-800/70 text-slate-100 hover:bg-slate-800 border border-slate-700/60";
-    return (
-        <button className={`${cls} ${props.className ?? ""}`} disabled={props.disabled} onClick={props.onClick}>
-            {props.children}
-        </button>
-    );
-}
+type Props =
+    | {
+        state: GameState;
+        setState: React.Dispatch<React.SetStateAction<GameState>>;
+        onPlayOnline?: () => void;
+        onRematch?: () => void; // back to the setup screen with this game's settings
+        online?: undefined;
+    }
+    | {
+        view: PlayerView;
+        setView: React.Dispatch<React.SetStateAction<PlayerView>>;
+        online: OnlineSeat;
+    };
 
 function Badge({ children, className, kind }: { children: React.ReactNode; className?: string; kind?: "default" | "highlight" }) {
     const isHighlight = kind === "highlight";
@@ -79,43 +60,10 @@ function Badge({ children, className, kind }: { children: React.ReactNode; class
     );
 }
 
-/**
- * RUNの有効な両端（次に置けるランク）を計算する
- */
-function getRunEdges(cards: Card[], rule: RoundRule): { min: number; max: number; suit: Suit } | null {
-    const nonWild = cards.filter((c) => !isWildRank(c.rank, rule));
-    if (nonWild.length === 0) return null; // オールワイルドの手は考慮外（基本起きない）
-
-    const suit = nonWild[0].suit;
-    const ranks = nonWild.map((c) => c.rank).sort((a, b) => a - b);
-    // const wildCount = cards.length - nonWild.length;
-
-    // Gaps between non-wilds
-    // let gaps = 0;
-    // for (let i = 1; i < ranks.length; i++) {
-    //     gaps += ranks[i] - ranks[i - 1] - 1;
-    // }
-
-    // const remainingWilds = wildCount - gaps;
-    // 五Crownsの場合、RUNは 3..13 の範囲
-    // 最小ランクは ranks[0] - (左に振れるワイルド数)
-    // 最大ランクは ranks[last] + (右に振れるワイルド数)
-    // ただしワイルドは左右どちらにも振れるので、ガイドとしては「現在の連番のすぐ外側」を出すのが適切
-
-    // 現在の「実質的な」最小と最大を求める（ワイルドを内側の埋め合わせに使った後の余りを考慮）
-    // シンプルに：非ワイルドの最小-1 と 最大+1 が候補。
-    // ワイルドが余っているなら、それを含ませたさらに外側もあり得るが、ガイドは「次の1枚」で良い。
-    return {
-        min: ranks[0],
-        max: ranks[ranks.length - 1],
-        suit
-    };
-}
-
 /**
  * ターンフェーズとゲームステータスに応じたアクションガイドを生成
  */
-function getActionGuide(state: GameState): { title: string; subtitle: string } {
+function getActionGuide(state: PlayerView): { title: string; subtitle: string } {
     if (state.status === "ROUND_END") {
         return { title: "Round ended", subtitle: "Review scores, then proceed to next round." };
     }
@@ -143,19 +91,32 @@ function getActionGuide(state: GameState): { title: string; subtitle: string } {
     };
 }
 
-export default function GameView({ state, setState }: Props) {
+export default function GameView(props: Props) {
+    const { online } = props;
+    // Only a local table holds the whole GameState; the screen renders one player's view of it.
+    // Hot-seat: that player is whoever's turn it is; online: always yourself.
+    const local = props.online ? null : props;
+    const source = props.online ? props.view : props.state;
+    const state = React.useMemo(
+        () => ("viewerId" in source ? source : viewFor(source, source.players[source.currentPlayerIndex].id)),
+        [source]
+    );
     const currentPlayer = state.players[state.currentPlayerIndex];
-    const rng = React.useMemo(() => defaultRng, []);
-    const canAct = state.status === "PLAYING";
+    const isBotTurn = currentPlayer.kind === "bot";
+    const canAct = state.status === "PLAYING" && !isBotTurn && state.viewerId === currentPlayer.id;
 
     const canDraw = canAct && state.turnPhase === "NEED_DRAW";
     const canDiscard = canAct && state.turnPhase === "NEED_DISCARD";
     const canMeld = canAct && state.turnPhase === "NEED_DISCARD";
+    const canLayOffNow = canMeld && canLayOff(state, currentPlayer.id);
+    const canSwapWild = canLayOffNow && state.rule.ruleSet.allowWildSwap && state.selectedCardIds.length === 1;
+    const canUndo = canMeld && state.undoCount > 0;
+    const canRedo = canMeld && state.redoCount > 0;
 
     const selectedCards = React.useMemo(() => {
-        const map = new Map(currentPlayer.hand.map((c) => [c.id, c]));
+        const map = new Map(state.hand.map((c) => [c.id, c]));
         return state.selectedCardIds.map((id) => map.get(id)).filter(Boolean) as Card[];
-    }, [currentPlayer.hand, state.selectedCardIds]);
+    }, [state.hand, state.selectedCardIds]);
 
     type MeldPreview = {
         canShow: boolean;
@@ -163,6 +124,7 @@ export default function GameView({ state, setState }: Props) {
         book: { ok: boolean; reason?: string };
         run: { ok: boolean; reason?: string };
         hint?: string;
+        offendingIds: string[]; // selected cards that break the closest meld type
     };
 
     const meldPreview = React.useMemo<MeldPreview>(() => {
@@ -170,17 +132,20 @@ export default function GameView({ state, setState }: Props) {
         const canShow = state.status === "PLAYING" && state.turnPhase === "NEED_DISCARD";
 
         if (!canShow || count === 0) {
-            return { canShow: false, count, book: { ok: false }, run: { ok: false } };
+            return { canShow: false, count, book: { ok: false }, run: { ok: false }, offendingIds: [] };
         }
 
-        // 1-2枚はガイドを出す
-        if (count < 3) {
+        // 最小枚数未満はガイドを出す
+        const minSize = state.rule.ruleSet.minMeldSize;
+        if (count < minSize) {
+            const missing = minSize - count;
             return {
                 canShow: true,
                 count,
-                book: { ok: false, reason: "Need at least 3 cards." },
-                run: { ok: false, reason: "Need at least 3 cards." },
-                hint: `Must select ${3 - count} more card${3 - count === 1 ? "" : "s"} to Meld`,
+                book: { ok: false, reason: `Need at least ${minSize} cards.` },
+                run: { ok: false, reason: `Need at least ${minSize} cards.` },
+                hint: `Must select ${missing} more card${missing === 1 ? "" : "s"} to Meld`,
+                offendingIds: [],
             };
         }
 
@@ -190,243 +155,140 @@ export default function GameView({ state, setState }: Props) {
         const book = bookRes.ok ? { ok: true } : { ok: false, reason: bookRes.reason };
         const run = runRes.ok ? { ok: true } : { ok: false, reason: runRes.reason };
 
-        let hint: string | undefined;
-        if (!book.ok && !run.ok) {
-            hint = book.reason ?? run.reason ?? "Invalid meld.";
+        // どちらも不成立なら、崩している札が少ない方（＝惜しい方）の理由と札を示す
+        if (!bookRes.ok && !runRes.ok) {
+            const closest = runRes.cardIds.length < bookRes.cardIds.length ? runRes : bookRes;
+            return { canShow: true, count, book, run, hint: closest.reason, offendingIds: closest.cardIds };
         }
 
-        return { canShow: true, count, book, run, hint };
+        return { canShow: true, count, book, run, offendingIds: [] };
     }, [state.status, state.turnPhase, state.rule, selectedCards]);
 
-    const onToggleSelect = (cardId: string) => {
-        if (!canAct) return;
-        setState((prev) => {
-            const has = prev.selectedCardIds.includes(cardId);
-            const selectedCardIds = has
-                ? prev.selectedCardIds.filter((id) => id !== cardId)
-                : [...prev.selectedCardIds, cardId];
-            return { ...prev, selectedCardIds };
+    // BOOK と RUN の両方が成立する選択は、どちらで出すかをプレイヤーが選ぶ（後の Lay Off 先が変わるため）
+    // 選択が変わったら選び直し
+    const selectionKey = state.selectedCardIds.join(",");
+    const [meldChoice, setMeldChoice] = React.useState<{ key: string; type: MeldType } | null>(null);
+    const isAmbiguousMeld = meldPreview.book.ok && meldPreview.run.ok;
+    const meldType: MeldType | null = isAmbiguousMeld
+        ? (meldChoice?.key === selectionKey ? meldChoice.type : null)
+        : meldPreview.book.ok ? "BOOK" : meldPreview.run.ok ? "RUN" : null;
+
+    const dispatch = (action: GameAction) => {
+        if (!local) return online?.onAction(action);
+        local.setState((prev) => {
+            const result = applyAction(prev, action);
+            return result.ok ? result.value : { ...prev, message: result.error.message };
         });
     };
 
-    const onClearSelection = () => setState((prev) => ({ ...prev, selectedCardIds: [] }));
-
-    const onSortRank = () => {
-        if (!canAct) return;
-        setState((prev) => {
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: sortByRankThenSuit(p.hand) } : p
-            );
-            return { ...prev, players, message: "Sorted hand: Rank → Suit" };
-        });
+    const showMessage = (message: string) => {
+        if (props.online) props.setView((prev) => ({ ...prev, message }));
+        else props.setState((prev) => ({ ...prev, message }));
     };
 
-    const onSortSuit = () => {
+    const onToggleSelect = (cardId: string) => {
         if (!canAct) return;
-        setState((prev) => {
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: sortBySuitThenRank(p.hand) } : p
-            );
-            return { ...prev, players, message: "Sorted hand: Suit → Rank" };
-        });
+        const has = state.selectedCardIds.includes(cardId);
+        const cardIds = has
+            ? state.selectedCardIds.filter((id) => id !== cardId)
+            : [...state.selectedCardIds, cardId];
+        dispatch({ type: "SELECT", cardIds });
     };
 
-    const onDrawFromDeck = () => {
-        if (!canDraw) return;
+    const onClearSelection = () => dispatch({ type: "SELECT", cardIds: [] });
 
-        setState((prev) => {
-            let { drawPile, discardPile } = prev;
-
-            if (drawPile.length === 0) {
-                const recycled = recycleDiscardIntoDraw(drawPile, discardPile, rng);
-                drawPile = recycled.drawPile;
-                discardPile = recycled.discardPile;
-            }
-
-            const res = drawOne(drawPile);
-            const card = res.card;
-            drawPile = res.drawPile;
-
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: [...p.hand, card] } : p
-            );
-
-            return {
-                ...prev,
-                players,
-                drawPile,
-                discardPile,
-                turnPhase: "NEED_DISCARD",
-                message: `${players[prev.currentPlayerIndex].name} drew a card. Now discard 1 card.`,
-            };
-        });
-    };
+    const onSortRank = () => dispatch({ type: "SORT", by: "RANK" });
 
-    const onDrawFromDiscard = () => {
-        if (!canDraw) return;
+    const onSortSuit = () => dispatch({ type: "SORT", by: "SUIT" });
 
-        setState((prev) => {
-            if (prev.discardPile.length === 0) return { ...prev, message: "Discard pile is empty." };
+    const onDrawFromDeck = () => dispatch({ type: "DRAW_DECK" });
 
-            const res = takeDiscardTop(prev.discardPile);
-            const card = res.card;
-
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: [...p.hand, card] } : p
-            );
-
-            return {
-                ...prev,
-                players,
-                discardPile: res.discardPile,
-                turnPhase: "NEED_DISCARD",
-                message: `${players[prev.currentPlayerIndex].name} took the top discard. Now discard 1 card.`,
-            };
-        });
-    };
+    const onDrawFromDiscard = () => dispatch({ type: "TAKE_DISCARD" });
 
     const onSubmitMeld = () => {
-        if (!canMeld) return;
-
-        setState((prev) => {
-            const me = prev.players[prev.currentPlayerIndex];
-
-            const handMap = new Map(me.hand.map((c) => [c.id, c]));
-            const cards = prev.selectedCardIds.map((id) => handMap.get(id)).filter(Boolean) as Card[];
-            if (cards.length === 0) return { ...prev, message: "Select cards first." };
-
-            // Auto-detect: try BOOK first, then RUN
-            let type: MeldType = "BOOK";
-            let result = validateMeld(cards, "BOOK", prev.rule);
-            if (!result.ok) {
-                result = validateMeld(cards, "RUN", prev.rule);
-                type = "RUN";
-            }
-            if (!result.ok) return { ...prev, message: `Invalid meld: ${result.reason}` };
-
-            const remove = new Set(cards.map((c) => c.id));
-            const newHand = me.hand.filter((c) => !remove.has(c.id));
-
-            // Must keep at least 1 card for discard (Go out happens on discard, not meld)
-            if (newHand.length < 1) {
-                return { ...prev, message: "Must keep 1 card to discard. (Go out happens on discard.)" };
-            }
-
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: newHand } : p
-            );
-
-            const meldId = `R${prev.round}-${me.id}-${Date.now()}`;
-            const melds = [
-                ...prev.melds,
-                { id: meldId, playerId: me.id, type, cards, round: prev.round },
-            ];
-
-            return {
-                ...prev,
-                players,
-                melds,
-                selectedCardIds: [],
-                message: `${me.name} submitted a ${type} (${cards.length}). Now discard 1 card.`,
-            };
-        });
+        if (meldType) dispatch({ type: "MELD", cardIds: state.selectedCardIds, meldType });
     };
 
-    const onLayoffToMeld = (meldId: string) => {
-        if (!canAct || !canMeld) return;
-        setState((prev) => {
-            const me = prev.players[prev.currentPlayerIndex];
-
-            if (prev.selectedCardIds.length === 0) {
-                return { ...prev, message: "Select cards to lay off first." };
-            }
-
-            const handMap = new Map(me.hand.map((c) => [c.id, c]));
-            const addedCards = prev.selectedCardIds.map((id) => handMap.get(id)).filter(Boolean) as Card[];
-            if (addedCards.length === 0) return { ...prev, message: "Selected cards not found in hand." };
-
-            // Must keep at least 1 card for discard (Go out happens on discard)
-            if (me.hand.length - addedCards.length < 1) {
-                return { ...prev, message: "Must keep 1 card to discard. (Go out happens on discard.)" };
-            }
-
-            const target = prev.melds.find((m) => m.id === meldId);
-            if (!target) return { ...prev, message: "Target meld not found." };
-
-            const result = validateLayoff({
-                meldType: target.type,
-                meldCards: target.cards,
-                addedCards,
-                rule: prev.rule,
-            });
-            if (!result.ok) return { ...prev, message: `Lay off failed: ${result.reason}` };
+    const onLayoffToMeld = (meldId: string) =>
+        dispatch({ type: "LAYOFF", meldId, cardIds: state.selectedCardIds });
 
-            const remove = new Set(addedCards.map((c) => c.id));
-            const newHand = me.hand.filter((c) => !remove.has(c.id));
+    const onSwapWild = (meldId: string, wildCardId: string) =>
+        dispatch({ type: "SWAP_WILD", meldId, cardId: state.selectedCardIds[0], wildCardId });
 
-            const melds = prev.melds.map((m) =>
-                m.id === meldId ? { ...m, cards: [...m.cards, ...addedCards] } : m
-            );
+    const onUndo = () => dispatch({ type: "UNDO" });
 
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: newHand } : p
-            );
-
-            return {
-                ...prev,
-                players,
-                melds,
-                selectedCardIds: [],
-                message: `Laid off ${addedCards.length} card(s) onto ${target.type}. Now discard 1 card.`,
-            };
-        });
-    };
+    const onRedo = () => dispatch({ type: "REDO" });
 
     const onDiscardSelected = () => {
-        if (!canDiscard) return;
-
-        setState((prev) => {
-            const me = prev.players[prev.currentPlayerIndex];
-
-            if (prev.selectedCardIds.length !== 1) {
-                return { ...prev, message: "Must select exactly 1 card to discard" };
-            }
-
-            const cardId = prev.selectedCardIds[0];
-            const card = me.hand.find((c) => c.id === cardId);
-            if (!card) return { ...prev, message: "Card not found." };
-
-            const newHand = me.hand.filter((c) => c.id !== cardId);
-            const newDiscard = discardOne(prev.discardPile, card);
+        if (state.selectedCardIds.length !== 1) {
+            showMessage("Must select exactly 1 card to discard");
+            return;
+        }
+        dispatch({ type: "DISCARD", cardId: state.selectedCardIds[0] });
+    };
 
-            const players = prev.players.map((p, idx) =>
-                idx === prev.currentPlayerIndex ? { ...p, hand: newHand } : p
-            );
+    const onNextRound = () => dispatch({ type: "NEXT_ROUND" });
 
-            const base: GameState = {
-                ...prev,
-                players,
-                discardPile: newDiscard,
-                selectedCardIds: [],
-            };
-
-            // ドメインロジックに委譲
-            const result = afterDiscard(base, me.id, newHand.length);
+    const topDiscard = state.discardPile[state.discardPile.length - 1];
 
-            // メッセージ補完
-            if (!result.message) {
-                const nextPlayer = result.players[result.currentPlayerIndex];
-                return {
-                    ...result,
-                    message: `${me.name} discarded 1 card. Next: ${nextPlayer.name} (Draw 1).`,
-                };
+    // Bots play one action per tick; an all-bot table also advances rounds by itself.
+    // Online, the server plays the bots.
+    const localState = local?.state;
+    const setLocalState = local?.setState;
+    // a bot move the engine rejected: the bots stop at that state (trying again would repeat it forever)
+    const [botFailure, setBotFailure] = React.useState<{ state: GameState; message: string } | null>(null);
+    const botError = botFailure && botFailure.state === localState ? botFailure.message : null;
+    React.useEffect(() => {
+        if (!localState || !setLocalState || botError) return;
+        const allBots = localState.players.every((p) => p.kind === "bot");
+        const action =
+            localState.status === "ROUND_END" && allBots
+                ? ({ type: "NEXT_ROUND" } as const)
+                : chooseBotAction(localState, defaultRng);
+        if (!action) return;
+
+        const timer = window.setTimeout(() => {
+            const result = applyAction(localState, action);
+            if (!result.ok) {
+                const bot = localState.players[localState.currentPlayerIndex].name;
+                setBotFailure({ state: localState, message: `${bot} tried ${action.type} and was refused: ${result.error.message}` });
+                return;
             }
-            return result;
-        });
-    };
-    const onNextRound = () => setState((prev) => nextRound(prev, { startDiscard: true }));
+            setLocalState((prev) => (prev === localState ? result.value : prev));
+        }, BOT_ACTION_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [localState, setLocalState, botError]);
+
+    // replaying needs every seed: the local game has them, online the server sends them at the end.
+    // Seeds predict the deals still to come (and past frames show every hand), so only a finished game replays.
+    const replayState = local ? (local.state.status === "GAME_OVER" ? local.state : undefined) : online?.finished;
+
+    const [showReplay, setShowReplay] = React.useState(false);
+    const [showScoreboard, setShowScoreboard] = React.useState(false);
+
+    const humanCount = state.players.filter((p) => p.kind === "human").length;
+
+    // spectating needs the whole state, so only the local table offers it (online it would show others' hands).
+    // Anyone holding a seat shares this screen, so hands are only revealed on an all-bot table.
+    const canRevealHands = humanCount === 0;
+    const [spectating, setSpectating] = React.useState(false);
+    const [spectatorOptions, setSpectatorOptions] = React.useState<SpectatorOptions>(DEFAULT_SPECTATOR_OPTIONS);
+    const spectated = React.useMemo(
+        () =>
+            spectating && localState
+                ? spectatorView(localState, canRevealHands ? spectatorOptions : DEFAULT_SPECTATOR_OPTIONS)
+                : null,
+        [spectating, localState, spectatorOptions, canRevealHands]
+    );
 
-    const topDiscard = state.discardPile[state.discardPile.length - 1];
+    // Hot-seat privacy: with 2+ humans at the table, each turn starts behind a "pass device" screen.
+    // A turn is identified by round + turns played, so the screen comes back as soon as a turn ends
+    // and hands over (no effect needed, the previous hand is never rendered for the next player).
+    const [privacyScreen, setPrivacyScreen] = React.useState(true);
+    const [revealedTurn, setRevealedTurn] = React.useState<string | null>(null);
+    const turnKey = `${state.round}:${state.turnsPlayed}`;
+    const needsPassScreen =
+        !online && privacyScreen && humanCount >= 2 && state.status === "PLAYING" && !isBotTurn && revealedTurn !== turnKey;
 
     const [shakeId, setShakeId] = React.useState(0);
 
@@ -447,9 +309,38 @@ export default function GameView({ state, setState }: Props) {
                         </div>
                         <p className="text-slate-400 text-sm mt-1">Five Crowns compatible deck-building experience.</p>
                     </div>
-                    <div className="text-slate-300 flex items-center gap-2 bg-slate-900/40 px-4 py-2 rounded-xl border border-white/5">
-                        <span className="text-xs uppercase tracking-wider font-semibold text-slate-500">Current Turn</span>
-                        <span className="font-bold text-slate-100">{currentPlayer.name}</span>
+                    <div className="flex items-center gap-2">
+                        <Btn kind="ghost" onClick={() => setShowScoreboard(true)}>
+                            Scoreboard
+                        </Btn>
+                        {online ? (
+                            <>
+                                <Badge>Room {online.roomCode}</Badge>
+                                <Btn kind="ghost" onClick={online.onLeave}>
+                                    Leave
+                                </Btn>
+                            </>
+                        ) : (
+                            <>
+                                <Btn kind="ghost" onClick={() => setSpectating(true)}>
+                                    Spectate
+                                </Btn>
+                                {local?.onPlayOnline && (
+                                    <Btn kind="ghost" onClick={local.onPlayOnline}>
+                                        Play online
+                                    </Btn>
+                                )}
+                            </>
+                        )}
+                        {!online && humanCount >= 2 && (
+                            <Btn kind="ghost" onClick={() => setPrivacyScreen((v) => !v)}>
+                                Privacy screen: {privacyScreen ? "On" : "Off"}
+                            </Btn>
+                        )}
+                        <div className="text-slate-300 flex items-center gap-2 bg-slate-900/40 px-4 py-2 rounded-xl border border-white/5">
+                            <span className="text-xs uppercase tracking-wider font-semibold text-slate-500">Current Turn</span>
+                            <span className="font-bold text-slate-100">{currentPlayer.name}</span>
+                        </div>
                     </div>
                 </header>
 
@@ -471,6 +362,12 @@ export default function GameView({ state, setState }: Props) {
                                     <Badge>
                                         {state.turnPhase}
                                     </Badge>
+                                    {/* the seed predicts the deck: shown once the game is over */}
+                                    {state.setup.seed !== null && (
+                                        <Badge className="font-mono">
+                                            seed {state.setup.seed}
+                                        </Badge>
+                                    )}
                                     {state.outTriggeredByPlayerId && (
                                         <Badge className="border-amber-500/50 bg-amber-500/10 text-amber-200">
                                             Final Turns: {state.turnsRemainingAfterOut ?? 0}
@@ -484,6 +381,16 @@ export default function GameView({ state, setState }: Props) {
                                     {state.message}
                                 </div>
                             )}
+                            {botError && (
+                                <div className="mt-3 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-rose-500/50 bg-rose-500/10 p-3 text-sm text-rose-200">
+                                    <span>{botError} The bots have stopped.</span>
+                                    {local?.onRematch && (
+                                        <Btn kind="ghost" onClick={local.onRematch}>
+                                            Back to setup
+                                        </Btn>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     );
                 })()}
@@ -499,6 +406,10 @@ export default function GameView({ state, setState }: Props) {
                                 outBy: state.outTriggeredByPlayerId,
                                 turnsLeft: state.turnsRemainingAfterOut,
                             }}
+                            turnOrder={{
+                                dealer: state.players[state.dealerIndex].name,
+                                leader: state.players[leaderIndex(state.dealerIndex, state.players.length)].name,
+                            }}
                         />
 
                         <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
@@ -507,7 +418,14 @@ export default function GameView({ state, setState }: Props) {
                             <div className="flex items-center justify-between">
                                 <div>
                                     <div className="text-slate-300 text-sm">Draw</div>
-                                    <div className="text-lg font-semibold">{state.drawPile.length}</div>
+                                    <div className="text-lg font-semibold">{state.drawPileCount}</div>
+                                    {state.drawPileCount === 0 && state.discardPile.length <= 1 && (
+                                        <div className="text-xs text-amber-200">
+                                            {state.rule.ruleSet.drawPileExhausted === "END_ROUND"
+                                                ? "Out of cards: drawing ends the round"
+                                                : "Out of cards: drawing opens a new deck"}
+                                        </div>
+                                    )}
                                 </div>
                                 <Btn
                                     onClick={onDrawFromDeck}
@@ -545,8 +463,20 @@ export default function GameView({ state, setState }: Props) {
                                             } bg-slate-950/25`}
                                     >
                                         <div className="flex items-center justify-between">
-                                            <div className="font-medium">{p.name}</div>
-                                            <div className="text-slate-300 text-sm">Hand: {p.hand.length}</div>
+                                            <div className="font-medium flex items-center gap-2">
+                                                {p.name}
+                                                {p.kind === "bot" && (
+                                                    <span className="text-[10px] text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded uppercase font-bold">
+                                                        Bot · {p.botLevel ?? "easy"}
+                                                    </span>
+                                                )}
+                                                {idx === state.dealerIndex && (
+                                                    <span className="text-[10px] text-sky-200 bg-sky-500/10 px-1.5 py-0.5 rounded uppercase font-bold">
+                                                        Dealer
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <div className="text-slate-300 text-sm">Hand: {p.handCount}</div>
                                         </div>
                                         <div className="text-slate-400 text-sm">Score: {p.score}</div>
                                     </div>
@@ -560,7 +490,7 @@ export default function GameView({ state, setState }: Props) {
                             <div className="flex items-center gap-4">
                                 <div className="flex flex-col">
                                     <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">Your Hand</span>
-                                    <span className="text-xl font-bold text-white leading-none">{currentPlayer.hand.length}</span>
+                                    <span className="text-xl font-bold text-white leading-none">{state.hand.length}</span>
                                 </div>
 
                                 <div className="h-8 w-[1px] bg-white/10 mx-1" />
@@ -584,10 +514,10 @@ export default function GameView({ state, setState }: Props) {
 
                                 <Btn
                                     onClick={onSubmitMeld}
-                                    disabled={!canMeld || !(meldPreview.book.ok || meldPreview.run.ok)}
-                                    kind={(meldPreview.book.ok || meldPreview.run.ok) ? "primary" : "secondary"}
+                                    disabled={!canMeld || !meldType}
+                                    kind={meldType ? "primary" : "secondary"}
                                 >
-                                    Meld
+                                    {meldType ? `Meld ${meldType}` : "Meld"}
                                 </Btn>
 
                                 <Btn
@@ -598,6 +528,13 @@ export default function GameView({ state, setState }: Props) {
                                     Discard Selected
                                 </Btn>
 
+                                <Btn onClick={onUndo} disabled={!canUndo} kind="ghost">
+                                    Undo
+                                </Btn>
+                                <Btn onClick={onRedo} disabled={!canRedo} kind="ghost">
+                                    Redo
+                                </Btn>
+
                                 <Btn
                                     onClick={onClearSelection}
                                     disabled={!canAct || state.selectedCardIds.length === 0}
@@ -619,32 +556,38 @@ export default function GameView({ state, setState }: Props) {
                                     </div>
 
                                     <div className="flex items-center gap-2">
-                                        <span
-                                            className={
-                                                "rounded-full px-3 py-1 text-xs font-semibold border transition-colors " +
-                                                (meldPreview.book.ok
-                                                    ? "border-white bg-white text-slate-900 shadow-sm"
-                                                    : "border-slate-700/60 bg-slate-900/40 text-slate-400")
-                                            }
-                                            title={meldPreview.book.ok ? "BOOK is valid" : meldPreview.book.reason}
-                                        >
-                                            BOOK {meldPreview.book.ok ? "✓" : "✕"}
-                                        </span>
-
-                                        <span
-                                            className={
-                                                "rounded-full px-3 py-1 text-xs font-semibold border transition-colors " +
-                                                (meldPreview.run.ok
-                                                    ? "border-white bg-white text-slate-900 shadow-sm"
-                                                    : "border-slate-700/60 bg-slate-900/40 text-slate-400")
-                                            }
-                                            title={meldPreview.run.ok ? "RUN is valid" : meldPreview.run.reason}
-                                        >
-                                            RUN {meldPreview.run.ok ? "✓" : "✕"}
-                                        </span>
+                                        {(["BOOK", "RUN"] as const).map((type) => {
+                                            const res = type === "BOOK" ? meldPreview.book : meldPreview.run;
+                                            const chosen = isAmbiguousMeld ? meldType === type : res.ok;
+                                            return (
+                                                <button
+                                                    key={type}
+                                                    type="button"
+                                                    disabled={!isAmbiguousMeld}
+                                                    onClick={() => setMeldChoice({ key: selectionKey, type })}
+                                                    className={
+                                                        "rounded-full px-3 py-1 text-xs font-semibold border transition-colors " +
+                                                        (chosen
+                                                            ? "border-white bg-white text-slate-900 shadow-sm"
+                                                            : res.ok
+                                                                ? "border-slate-300 bg-slate-900/40 text-slate-200 hover:bg-slate-800"
+                                                                : "border-slate-700/60 bg-slate-900/40 text-slate-400")
+                                                    }
+                                                    title={res.ok ? (isAmbiguousMeld ? `Meld as ${type}` : `${type} is valid`) : res.reason}
+                                                >
+                                                    {type} {res.ok ? "✓" : "✕"}
+                                                </button>
+                                            );
+                                        })}
                                     </div>
                                 </div>
 
+                                {isAmbiguousMeld && !meldType && (
+                                    <div className="mt-2 text-[13px] text-slate-300">
+                                        Valid as both BOOK and RUN. Pick one: it decides which cards can be laid off later.
+                                    </div>
+                                )}
+
                                 {meldPreview.hint && (
                                     <div className="mt-2 text-[13px] text-slate-300 flex items-center gap-2">
                                         <span className="text-amber-400 text-xs text-rose-400">⚠</span>
@@ -659,104 +602,52 @@ export default function GameView({ state, setState }: Props) {
                                 Five Crowns compat: Joker is always wild. Round wild rank changes each round.
                             </div>
 
-                            <div className="flex flex-wrap gap-3">
-                                {currentPlayer.hand.map((c) => {
-                                    return (
-                                        <CardTile
-                                            key={c.id}
-                                            card={c}
-                                            isWild={isWildRank(c.rank, state.rule)}
-                                            selected={state.selectedCardIds.includes(c.id)}
-                                            dimmed={state.selectedCardIds.length > 0 && !state.selectedCardIds.includes(c.id)}
-                                            disabled={!canAct}
-                                            highlight={
-                                                meldPreview.book.ok ? "book" :
-                                                    meldPreview.run.ok ? "run" :
-                                                        null
-                                            }
-                                            onClick={() => onToggleSelect(c.id)}
-                                        />
-                                    );
-                                })}
-                            </div>
-                        </div>
-
-                        <div className="rounded-2xl border border-slate-800 bg-slate-950/20 p-4">
-                            <div className="flex items-center justify-between mb-3">
-                                <div className="text-sm text-slate-300">Melds (this round)</div>
-                                <div className="text-xs text-slate-500">Public table</div>
-                            </div>
-
-                            {state.melds.length === 0 ? (
-                                <div className="text-slate-400 text-sm">No melds yet.</div>
+                            {isBotTurn && !online ? (
+                                <div className="flex items-center gap-3 text-slate-300 text-sm animate-pulse">
+                                    🤖 {currentPlayer.name} is playing… ({currentPlayer.handCount} cards)
+                                </div>
                             ) : (
-                                <div className="space-y-3">
-                                    {state.melds.map((m) => (
-                                        <div key={m.id} className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
-                                            <div className="flex items-center justify-between gap-2">
-                                                <div className="flex items-center gap-2">
-                                                    <div className="text-slate-200 text-sm font-bold uppercase tracking-wide">
-                                                        {m.type}
-                                                    </div>
-                                                    <div className="text-[10px] text-slate-500 bg-slate-800 px-1.5 py-0.5 rounded uppercase font-bold">
-                                                        {state.players.find(p => p.id === m.playerId)?.name ?? m.playerId}
-                                                    </div>
-                                                </div>
-                                                <div className="flex items-center gap-2">
-                                                    <div className="text-xs text-slate-500 font-medium">{m.cards.length} cards</div>
-                                                    <Btn
-                                                        onClick={() => onLayoffToMeld(m.id)}
-                                                        disabled={!canMeld || state.selectedCardIds.length === 0}
-                                                        kind="secondary"
-                                                        className="px-2 py-1 h-7 text-xs"
-                                                    >
-                                                        Lay Off
-                                                    </Btn>
-                                                </div>
-                                            </div>
-
-                                            <div className="mt-3 flex flex-wrap items-center gap-2">
-                                                {/* RUN Ghost Hint (Left) */}
-                                                {m.type === "RUN" && (() => {
-                                                    const edges = getRunEdges(m.cards, state.rule);
-                                                    if (!edges || edges.min <= 3) return null;
-                                                    return (
-                                                        <div className="flex items-center gap-1 opacity-20 hover:opacity-100 transition-opacity cursor-default group" title="Can extend left">
-                                                            <span className="text-[10px] text-slate-500 font-bold">{rankLabel((edges.min - 1) as any)}</span>
-                                                            <div className="w-6 h-8 rounded border border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 font-bold group-hover:border-slate-400 group-hover:text-slate-300">
-                                                                +
-                                                            </div>
-                                                        </div>
-                                                    );
-                                                })()}
-
-                                                {m.cards.map((c) => (
-                                                    <span key={c.id} className={`text-xs px-2 py-1 rounded-lg border transition-all delay-150 ${isWildRank(c.rank, state.rule) ? "border-amber-500/30 bg-amber-500/5 text-amber-200" : "border-slate-800 bg-slate-900/50 text-slate-300"}`}>
-                                                        {rankLabel(c.rank)}
-                                                        <span className="ml-1 text-[8px] opacity-40">{c.suit.charAt(0)}</span>
-                                                    </span>
-                                                ))}
-
-                                                {/* RUN Ghost Hint (Right) */}
-                                                {m.type === "RUN" && (() => {
-                                                    const edges = getRunEdges(m.cards, state.rule);
-                                                    if (!edges || edges.max >= 13) return null;
-                                                    return (
-                                                        <div className="flex items-center gap-1 opacity-20 hover:opacity-100 transition-opacity cursor-default group" title="Can extend right">
-                                                            <div className="w-6 h-8 rounded border border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 font-bold group-hover:border-slate-400 group-hover:text-slate-300">
-                                                                +
-                                                            </div>
-                                                            <span className="text-[10px] text-slate-500 font-bold">{rankLabel((edges.max + 1) as any)}</span>
-                                                        </div>
-                                                    );
-                                                })()}
-                                            </div>
+                                <div className="flex flex-wrap gap-3">
+                                    {online && state.status === "PLAYING" && !canAct && (
+                                        <div className="w-full text-slate-400 text-sm animate-pulse">
+                                            Waiting for {currentPlayer.name}…
                                         </div>
-                                    ))}
+                                    )}
+                                    {state.hand.map((c) => {
+                                        return (
+                                            <CardTile
+                                                key={c.id}
+                                                card={c}
+                                                isWild={isWildRank(c.rank, state.rule)}
+                                                selected={state.selectedCardIds.includes(c.id)}
+                                                dimmed={state.selectedCardIds.length > 0 && !state.selectedCardIds.includes(c.id)}
+                                                disabled={!canAct}
+                                                highlight={
+                                                    meldType === "BOOK" ? "book" :
+                                                        meldType === "RUN" ? "run" :
+                                                            meldPreview.offendingIds.includes(c.id) ? "invalid" :
+                                                                null
+                                                }
+                                                onClick={() => onToggleSelect(c.id)}
+                                            />
+                                        );
+                                    })}
                                 </div>
                             )}
                         </div>
 
+                        <MeldTable
+                            melds={state.melds}
+                            players={state.players}
+                            rule={state.rule}
+                            actions={{
+                                canLayOff: canLayOffNow && state.selectedCardIds.length > 0,
+                                canSwapWild,
+                                onLayOff: onLayoffToMeld,
+                                onSwapWild,
+                            }}
+                        />
+
                         {(state.status === "ROUND_END" || state.status === "GAME_OVER") && (
                             <div className="rounded-2xl border border-slate-700 bg-slate-950/40 p-4 space-y-2">
                                 <div className="text-slate-200 font-medium">
@@ -764,30 +655,80 @@ export default function GameView({ state, setState }: Props) {
                                 </div>
 
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                                    {state.players.map((p) => (
-                                        <div key={p.id} className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
-                                            <div className="flex items-center justify-between">
-                                                <div>{p.name}</div>
-                                                <div className="font-semibold">{p.score}</div>
+                                    {state.players.map((p) => {
+                                        const last = state.roundResults[state.roundResults.length - 1];
+                                        const roundScore = last?.round === state.round
+                                            ? last.scores.find((s) => s.playerId === p.id)
+                                            : undefined;
+                                        return (
+                                            <div key={p.id} className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+                                                <div className="flex items-center justify-between">
+                                                    <div>{p.name}</div>
+                                                    <div className="font-semibold">
+                                                        {roundScore && (
+                                                            <span className="mr-2 text-xs font-normal text-slate-400">
+                                                                {roundScore.wentOut ? "went out" : `+${roundScore.points}`}
+                                                            </span>
+                                                        )}
+                                                        {p.score}
+                                                    </div>
+                                                </div>
                                             </div>
-                                        </div>
-                                    ))}
+                                        );
+                                    })}
                                 </div>
 
-                                {state.status === "ROUND_END" && (
-                                    <Btn
-                                        onClick={onNextRound}
-                                        kind="primary"
-                                        className="mt-2"
-                                    >
-                                        Next Round
+                                <div className="flex flex-wrap gap-2 mt-2">
+                                    {state.status === "ROUND_END" && (
+                                        <Btn
+                                            onClick={onNextRound}
+                                            kind="primary"
+                                        >
+                                            Next Round
+                                        </Btn>
+                                    )}
+                                    <Btn onClick={() => setShowScoreboard(true)} kind="ghost">
+                                        Scoreboard
                                     </Btn>
-                                )}
+                                    {replayState && (
+                                        <Btn onClick={() => setShowReplay(true)} kind="ghost">
+                                            Watch Replay
+                                        </Btn>
+                                    )}
+                                    {state.status === "GAME_OVER" && local?.onRematch && (
+                                        <Btn onClick={local.onRematch} kind="primary">
+                                            Rematch with same settings
+                                        </Btn>
+                                    )}
+                                </div>
                             </div>
                         )}
                     </div>
                 </section>
             </div>
+
+            {needsPassScreen && (
+                <PassDeviceScreen
+                    playerName={currentPlayer.name}
+                    round={state.round}
+                    message={state.message}
+                    onReveal={() => setRevealedTurn(turnKey)}
+                />
+            )}
+
+            {showScoreboard && <Scoreboard state={state} onClose={() => setShowScoreboard(false)} />}
+
+            {showReplay && replayState && <ReplayViewer state={replayState} onClose={() => setShowReplay(false)} />}
+
+            {spectated && (
+                <SpectatorScreen
+                    view={spectated}
+                    onClose={() => setSpectating(false)}
+                    closeLabel="Back to game"
+                    options={canRevealHands ? spectatorOptions : undefined}
+                    onOptionsChange={canRevealHands ? setSpectatorOptions : undefined}
+                />
+            )}
         </div>
     );
 }
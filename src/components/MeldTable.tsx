@@ -0,0 +1,136 @@
+// src/components/MeldTable.tsx
+import React from "react";
+import type { MeldAssignment, Rank, RoundRule } from "../game/types";
+import type { Meld } from "../game/state";
+import { FiveCrownsCompat, isWildRank, rankLabel } from "../game/rules";
+import { assignedRank } from "../game/validator";
+
+import Btn from "./Btn";
+import CardChip from "./CardChip";
+
+/** What the current player can do with the melds; leave out for a read-only table (spectators) */
+export type MeldTableActions = {
+    canLayOff: boolean;
+    canSwapWild: boolean;
+    onLayOff: (meldId: string) => void;
+    onSwapWild: (meldId: string, wildCardId: string) => void;
+};
+
+type Props = {
+    melds: Meld[];
+    players: { id: string; name: string }[];
+    rule: RoundRule;
+    actions?: MeldTableActions;
+};
+
+/**
+ * RUNの両端の「次に置けるランク」を計算する（ワイルドの配置は meld.assignment で確定済み）
+ * 端が K / 3 ならその側には伸ばせないので null
+ */
+function getRunEdges(assignment: MeldAssignment): { below: Rank | null; above: Rank | null } | null {
+    if (assignment.type !== "RUN" || assignment.ranks.length === 0) return null;
+
+    const ranks = FiveCrownsCompat.ranks;
+    const low = ranks.indexOf(assignment.ranks[0]);
+    const high = ranks.indexOf(assignment.ranks[assignment.ranks.length - 1]);
+    return {
+        below: ranks[low - 1] ?? null,
+        above: ranks[high + 1] ?? null,
+    };
+}
+
+/** The melds on the table this round, with where each RUN can still grow */
+export default function MeldTable({ melds, players, rule, actions }: Props) {
+    return (
+        <div className="rounded-2xl border border-slate-800 bg-slate-950/20 p-4">
+            <div className="flex items-center justify-between mb-3">
+                <div className="text-sm text-slate-300">Melds (this round)</div>
+                <div className="text-xs text-slate-500">Public table</div>
+            </div>
+
+            {melds.length === 0 ? (
+                <div className="text-slate-400 text-sm">No melds yet.</div>
+            ) : (
+                <div className="space-y-3">
+                    {melds.map((m) => (
+                        <div key={m.id} className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                    <div className="text-slate-200 text-sm font-bold uppercase tracking-wide">
+                                        {m.type}
+                                    </div>
+                                    <div className="text-[10px] text-slate-500 bg-slate-800 px-1.5 py-0.5 rounded uppercase font-bold">
+                                        {players.find((p) => p.id === m.playerId)?.name ?? m.playerId}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <div className="text-xs text-slate-500 font-medium">{m.cards.length} cards</div>
+                                    {actions && (
+                                        <Btn
+                                            onClick={() => actions.onLayOff(m.id)}
+                                            disabled={!actions.canLayOff}
+                                            kind="secondary"
+                                            className="px-2 py-1 h-7 text-xs"
+                                        >
+                                            Lay Off
+                                        </Btn>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                                {/* RUN Ghost Hint (Left) */}
+                                {m.type === "RUN" && (() => {
+                                    const edges = getRunEdges(m.assignment);
+                                    if (!edges?.below) return null;
+                                    return (
+                                        <div className="flex items-center gap-1 opacity-20 hover:opacity-100 transition-opacity cursor-default group" title="Can extend left">
+                                            <span className="text-[10px] text-slate-500 font-bold">{rankLabel(edges.below)}</span>
+                                            <div className="w-6 h-8 rounded border border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 font-bold group-hover:border-slate-400 group-hover:text-slate-300">
+                                                +
+                                            </div>
+                                        </div>
+                                    );
+                                })()}
+
+                                {m.cards.map((c, i) => {
+                                    const isWild = isWildRank(c.rank, rule);
+                                    const chip = (
+                                        <CardChip card={c} isWild={isWild} standsFor={assignedRank(m.assignment, i)} />
+                                    );
+                                    // Wild swap: select the natural card in hand, then click the wild it stands for
+                                    return actions?.canSwapWild && isWild ? (
+                                        <button
+                                            key={c.id}
+                                            onClick={() => actions.onSwapWild(m.id, c.id)}
+                                            title="Swap the selected card for this wild"
+                                            className="rounded-lg ring-1 ring-amber-400/40 hover:ring-amber-300"
+                                        >
+                                            {chip}
+                                        </button>
+                                    ) : (
+                                        <React.Fragment key={c.id}>{chip}</React.Fragment>
+                                    );
+                                })}
+
+                                {/* RUN Ghost Hint (Right) */}
+                                {m.type === "RUN" && (() => {
+                                    const edges = getRunEdges(m.assignment);
+                                    if (!edges?.above) return null;
+                                    return (
+                                        <div className="flex items-center gap-1 opacity-20 hover:opacity-100 transition-opacity cursor-default group" title="Can extend right">
+                                            <div className="w-6 h-8 rounded border border-dashed border-slate-700 flex items-center justify-center text-[10px] text-slate-600 font-bold group-hover:border-slate-400 group-hover:text-slate-300">
+                                                +
+                                            </div>
+                                            <span className="text-[10px] text-slate-500 font-bold">{rankLabel(edges.above)}</span>
+                                        </div>
+                                    );
+                                })()}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,408 @@
+// src/components/OnlineLobby.tsx
+import React from "react";
+import type { GameState } from "../game/state";
+import type { PlayerView, SpectatorOptions, SpectatorView } from "../game/view";
+import type { LobbyView } from "../net/protocol";
+import type { ConnectionStatus, NetClient, NetClientHandlers } from "../net/client";
+import type { RoomHub } from "../net/hub";
+import { DEFAULT_SERVER_URL } from "../net/protocol";
+import { DEFAULT_SPECTATOR_OPTIONS } from "../game/view";
+import { connectLocal, connectToServer, loadSession, saveSession } from "../net/client";
+import { createRoomHub } from "../net/hub";
+import { connectChannel, serveChannel } from "../net/peer";
+
+import Btn from "./Btn";
+import GameView from "./GameView";
+import PeerInvite from "./PeerInvite";
+import PeerJoin from "./PeerJoin";
+import SpectatorScreen from "./SpectatorScreen";
+
+type Props = {
+    onExit: () => void;
+};
+
+/** Where the room lives: the reference server, or the host's browser (WebRTC, no server at all) */
+type Transport = "server" | "peer";
+
+const STATUS_LABEL: Record<ConnectionStatus, string> = {
+    connecting: "Connecting…",
+    open: "Connected",
+    reconnecting: "Connection lost, reconnecting…",
+    closed: "Disconnected",
+};
+
+const inputCls = "w-full rounded-lg border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-slate-100";
+
+/**
+ * Online play: against the reference server (`npm run server`), or peer-to-peer with one
+ * browser hosting the game. Create or join a room, wait in the lobby, then play on the shared table.
+ */
+export default function OnlineLobby({ onExit }: Props) {
+    const [transport, setTransport] = React.useState<Transport>("server");
+    const [url, setUrl] = React.useState(() => loadSession(window.sessionStorage)?.url ?? DEFAULT_SERVER_URL);
+    const [name, setName] = React.useState("");
+    const [codeInput, setCodeInput] = React.useState("");
+    const [seed, setSeed] = React.useState("");
+    const [status, setStatus] = React.useState<ConnectionStatus>("closed");
+    const [seat, setSeat] = React.useState<{ code: string; playerId: string } | null>(null);
+    const [watching, setWatching] = React.useState<string | null>(null); // room code while spectating
+    const [asSpectator, setAsSpectator] = React.useState(false); // peer-to-peer: join the invite as a spectator
+    const [spectate, setSpectate] = React.useState<SpectatorOptions>(DEFAULT_SPECTATOR_OPTIONS);
+    const [spectated, setSpectated] = React.useState<SpectatorView | null>(null);
+    const [lobby, setLobby] = React.useState<LobbyView | null>(null);
+    const [view, setView] = React.useState<PlayerView | null>(null);
+    const [finished, setFinished] = React.useState<GameState | undefined>(undefined);
+    const [error, setError] = React.useState<string | null>(null);
+    const client = React.useRef<NetClient | null>(null);
+
+    // peer-to-peer host: the hub runs in this page and serves each guest's data channel
+    const [peerHub, setPeerHub] = React.useState<RoomHub | null>(null);
+    const guestChannels = React.useRef<RTCDataChannel[]>([]);
+
+    /** `serverUrl` is null for peer-to-peer rooms, which cannot be rejoined after a reload */
+    const handlersFor = React.useCallback(
+        (serverUrl: string | null): NetClientHandlers => ({
+            onStatus: setStatus,
+            onMessage: (message) => {
+                switch (message.type) {
+                    case "JOINED":
+                        setSeat({ code: message.code, playerId: message.playerId });
+                        setError(null);
+                        if (serverUrl) saveSession(window.sessionStorage, { url: serverUrl, code: message.code, token: message.token });
+                        return;
+                    case "WATCHING":
+                        setWatching(message.code);
+                        return setError(null);
+                    case "LOBBY":
+                        return setLobby(message.lobby);
+                    case "STATE":
+                        setFinished(message.finished);
+                        return setView(message.view);
+                    case "SPECTATE":
+                        return setSpectated(message.view);
+                    case "ERROR":
+                        if (message.error.code === "ROOM_NOT_FOUND" || message.error.code === "BAD_TOKEN") {
+                            saveSession(window.sessionStorage, null);
+                        }
+                        // during the game, rejections show up where local ones do
+                        setView((prev) => (prev ? { ...prev, message: message.error.message } : prev));
+                        return setError(message.error.message);
+                }
+            },
+        }),
+        []
+    );
+
+    const connect = React.useCallback(
+        (target: string) => {
+            client.current?.close();
+            client.current = connectToServer(target, handlersFor(target), loadSession(window.sessionStorage) ?? undefined);
+        },
+        [handlersFor]
+    );
+
+    // Server rooms connect right away (a stored session rejoins its seat); peer rooms on host / join
+    React.useEffect(() => {
+        if (transport !== "server") return;
+        connect(loadSession(window.sessionStorage)?.url ?? DEFAULT_SERVER_URL);
+        return () => {
+            client.current?.close();
+            client.current = null;
+        };
+    }, [transport, connect]);
+
+    const closePeers = React.useCallback(() => {
+        for (const channel of guestChannels.current) channel.close();
+        guestChannels.current = [];
+        setPeerHub((hub) => {
+            hub?.close();
+            return null;
+        });
+    }, []);
+
+    React.useEffect(() => () => {
+        client.current?.close();
+        closePeers();
+    }, [closePeers]);
+
+    const send: NetClient["send"] = (message) => {
+        const sent = client.current?.send(message) ?? false;
+        if (!sent) setError("Not connected.");
+        return sent;
+    };
+
+    const trimmedName = name.trim();
+
+    const onHostPeer = () => {
+        const hub = createRoomHub();
+        setPeerHub(hub);
+        client.current = connectLocal(hub, handlersFor(null));
+        send({ type: "CREATE_ROOM", name: trimmedName });
+    };
+
+    const onGuest = (channel: RTCDataChannel) => {
+        if (!peerHub) return channel.close();
+        guestChannels.current.push(channel);
+        serveChannel(peerHub, channel);
+    };
+
+    const onJoinPeer = (channel: RTCDataChannel, roomCode: string) => {
+        client.current = connectChannel(channel, handlersFor(null));
+        send(asSpectator ? { type: "WATCH_ROOM", code: roomCode } : { type: "JOIN_ROOM", code: roomCode, name: trimmedName });
+    };
+
+    const leave = () => {
+        send({ type: "LEAVE" });
+        saveSession(window.sessionStorage, null);
+        if (transport === "peer") {
+            client.current?.close();
+            client.current = null;
+            closePeers();
+        }
+        setSeat(null);
+        setWatching(null);
+        setLobby(null);
+        setView(null);
+        setSpectated(null);
+        setFinished(undefined);
+    };
+
+    const exit = () => {
+        if (seat || watching) leave();
+        onExit();
+    };
+
+    const statusBanner = status !== "open" && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 rounded-xl border border-amber-500/50 bg-slate-900 px-4 py-2 text-sm text-amber-200">
+            {STATUS_LABEL[status]}
+        </div>
+    );
+
+    if (watching && spectated) {
+        return (
+            <>
+                <SpectatorScreen view={spectated} onClose={leave} closeLabel="Stop watching" />
+                {statusBanner}
+            </>
+        );
+    }
+
+    if (seat && view) {
+        const setTableView: React.Dispatch<React.SetStateAction<PlayerView>> = (update) =>
+            setView((prev) => (prev ? (typeof update === "function" ? update(prev) : update) : prev));
+        return (
+            <>
+                <GameView
+                    view={view}
+                    setView={setTableView}
+                    online={{
+                        roomCode: seat.code,
+                        onAction: (action) => send({ type: "ACTION", action }),
+                        onLeave: exit,
+                        finished,
+                    }}
+                />
+                {statusBanner}
+            </>
+        );
+    }
+
+    const isHost = !!lobby && !!seat && lobby.hostId === seat.playerId;
+    const roomCode = seat?.code ?? watching;
+
+    return (
+        <div className="min-h-screen bg-slate-950 text-slate-100 p-4 md:p-8 font-sans game-grid flex items-center justify-center">
+            <div className="w-full max-w-md rounded-2xl border border-slate-700 bg-slate-900/60 p-6 space-y-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight text-white">Flux Rounds · Online</h1>
+                    {(transport === "server" || roomCode) && (
+                        <p className={`text-sm mt-1 ${status === "open" ? "text-emerald-300" : "text-slate-400"}`}>
+                            {STATUS_LABEL[status]}
+                        </p>
+                    )}
+                </div>
+
+                {!roomCode ? (
+                    <div className="space-y-3">
+                        <div className="flex gap-2">
+                            {(["server", "peer"] as const).map((t) => (
+                                <Btn key={t} kind={transport === t ? "primary" : "ghost"} className="flex-1" onClick={() => setTransport(t)}>
+                                    {t === "server" ? "Server" : "Peer-to-peer"}
+                                </Btn>
+                            ))}
+                        </div>
+                        <label className="block text-xs text-slate-400">
+                            Your name
+                            <input value={name} onChange={(e) => setName(e.target.value)} maxLength={20} className={`mt-1 ${inputCls}`} />
+                        </label>
+
+                        {transport === "server" ? (
+                            <>
+                                <label className="block text-xs text-slate-400">
+                                    Server
+                                    <div className="mt-1 flex gap-2">
+                                        <input value={url} onChange={(e) => setUrl(e.target.value)} className={inputCls} />
+                                        <Btn kind="ghost" onClick={() => connect(url)}>
+                                            Connect
+                                        </Btn>
+                                    </div>
+                                </label>
+                                <Btn
+                                    kind="primary"
+                                    className="w-full"
+                                    disabled={status !== "open" || !trimmedName}
+                                    onClick={() => send({ type: "CREATE_ROOM", name: trimmedName })}
+                                >
+                                    Create room
+                                </Btn>
+                                <div className="flex gap-2">
+                                    <input
+                                        value={codeInput}
+                                        onChange={(e) => setCodeInput(e.target.value)}
+                                        placeholder="Room code"
+                                        className={`${inputCls} uppercase tracking-widest`}
+                                    />
+                                    <Btn
+                                        kind="secondary"
+                                        disabled={status !== "open" || !trimmedName || !codeInput.trim()}
+                                        onClick={() => send({ type: "JOIN_ROOM", code: codeInput, name: trimmedName })}
+                                    >
+                                        Join
+                                    </Btn>
+                                    <Btn
+                                        kind="ghost"
+                                        disabled={status !== "open" || !codeInput.trim()}
+                                        onClick={() => send({ type: "WATCH_ROOM", code: codeInput })}
+                                    >
+                                        Watch
+                                    </Btn>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <div className="text-xs text-slate-400">
+                                    No server needed: the host's browser runs the game and the others connect to it directly.
+                                </div>
+                                <Btn kind="primary" className="w-full" disabled={!trimmedName} onClick={onHostPeer}>
+                                    Host a game
+                                </Btn>
+                                <div className="text-center text-xs text-slate-500">or join one</div>
+                                <label className="flex items-center gap-2 text-xs text-slate-400">
+                                    <input type="checkbox" checked={asSpectator} onChange={(e) => setAsSpectator(e.target.checked)} />
+                                    Join as a spectator (no seat, watch only)
+                                </label>
+                                <PeerJoin disabled={!trimmedName && !asSpectator} onConnected={onJoinPeer} />
+                            </>
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+                            <div className="text-xs text-slate-400">
+                                {transport === "peer" ? "Room code — guests join with an invite from the host" : "Room code — share it with the others"}
+                            </div>
+                            <div className="text-2xl font-mono font-bold tracking-[0.3em] text-white">{roomCode}</div>
+                            {!!lobby?.spectators && (
+                                <div className="text-xs text-slate-400 mt-1">
+                                    {lobby.spectators} watching
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            {lobby?.seats.map((s) => (
+                                <div key={s.id} className="flex items-center justify-between rounded-lg bg-slate-950/30 px-3 py-2 text-sm">
+                                    <span>
+                                        {s.name}
+                                        {s.id === seat?.playerId && <span className="ml-2 text-xs text-slate-400">(you)</span>}
+                                        {s.id === lobby.hostId && <span className="ml-2 text-xs text-amber-300">host</span>}
+                                    </span>
+                                    <span className={`text-xs ${s.connected ? "text-emerald-300" : "text-slate-500"}`}>
+                                        {s.kind === "bot" ? `Bot · ${s.botLevel ?? "easy"}` : s.connected ? "online" : "offline"}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+
+                        {peerHub && <PeerInvite roomCode={roomCode} onGuest={onGuest} />}
+
+                        {isHost ? (
+                            <div className="space-y-2">
+                                <div className="flex gap-2">
+                                    <Btn kind="ghost" onClick={() => send({ type: "ADD_BOT", botLevel: "easy" })}>
+                                        + Easy bot
+                                    </Btn>
+                                    <Btn kind="ghost" onClick={() => send({ type: "ADD_BOT", botLevel: "hard" })}>
+                                        + Hard bot
+                                    </Btn>
+                                </div>
+                                <input
+                                    value={seed}
+                                    onChange={(e) => setSeed(e.target.value)}
+                                    placeholder="Seed (optional)"
+                                    className={inputCls}
+                                />
+                                <div className="flex items-center gap-3 text-xs text-slate-400">
+                                    <label className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={spectate.revealHands}
+                                            onChange={(e) => setSpectate({ ...spectate, revealHands: e.target.checked })}
+                                        />
+                                        Spectators see all hands
+                                    </label>
+                                    <label className="flex items-center gap-2">
+                                        delayed by
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={spectate.delayTurns}
+                                            disabled={!spectate.revealHands}
+                                            onChange={(e) =>
+                                                setSpectate({ ...spectate, delayTurns: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                                            }
+                                            className="w-14 rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-1 text-slate-100 disabled:opacity-50"
+                                        />
+                                        turns
+                                    </label>
+                                </div>
+                                <Btn
+                                    kind="primary"
+                                    className="w-full"
+                                    disabled={(lobby?.seats.length ?? 0) < 2}
+                                    onClick={() =>
+                                        send({
+                                            type: "START_GAME",
+                                            options: { ...(seed.trim() ? { seed: seed.trim() } : {}), spectators: spectate },
+                                        })
+                                    }
+                                >
+                                    Start game
+                                </Btn>
+                            </div>
+                        ) : (
+                            <div className="text-sm text-slate-400">
+                                {watching ? "Watching — the table shows up once the host starts the game…" : "Waiting for the host to start the game…"}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-sm text-rose-200">{error}</div>
+                )}
+
+                <div className="flex gap-2">
+                    {roomCode && (
+                        <Btn kind="ghost" onClick={leave}>
+                            {watching ? "Stop watching" : "Leave room"}
+                        </Btn>
+                    )}
+                    <Btn kind="ghost" onClick={exit}>
+                        Back to local game
+                    </Btn>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+// src/components/PassDeviceScreen.tsx
+import Btn from "./Btn";
+
+type Props = {
+    playerName: string;
+    round: number;
+    message?: string; // public summary of the previous turn
+    onReveal: () => void;
+};
+
+/**
+ * Hot-seat interstitial: covers the whole table between turns,
+ * so the next player's hand is only shown once they tap to reveal it.
+ */
+export default function PassDeviceScreen({ playerName, round, message, onReveal }: Props) {
+    return (
+        <div className="fixed inset-0 z-40 bg-slate-950 text-slate-100 game-grid flex items-center justify-center p-4">
+            <div className="w-full max-w-md rounded-2xl border border-slate-700 bg-slate-900/80 p-6 space-y-4 text-center">
+                <div className="text-xs uppercase tracking-wider font-semibold text-slate-500">Round {round}</div>
+                <div>
+                    <div className="text-slate-400 text-sm">Pass the device to</div>
+                    <div className="text-2xl font-bold tracking-tight text-white mt-1">{playerName}</div>
+                </div>
+
+                {message && (
+                    <div className="rounded-xl border border-slate-800 bg-slate-950/40 p-3 text-sm text-slate-300">
+                        {message}
+                    </div>
+                )}
+
+                <Btn kind="primary" onClick={onReveal} className="w-full">
+                    I'm {playerName} — show my hand
+                </Btn>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,83 @@
+// src/components/PeerInvite.tsx
+import React from "react";
+import type { PeerInvite as Invite } from "../net/peer";
+import { createInvite } from "../net/peer";
+
+import Btn from "./Btn";
+
+type Props = {
+    roomCode: string;
+    onGuest: (channel: RTCDataChannel) => void;
+};
+
+const codeBox =
+    "w-full h-20 rounded-lg border border-slate-700 bg-slate-950/60 px-3 py-2 font-mono text-[11px] text-slate-300 break-all";
+
+/**
+ * Host side of peer-to-peer signaling, one guest at a time:
+ * create an invite code, send it, paste the guest's answer code back.
+ */
+export default function PeerInvite({ roomCode, onGuest }: Props) {
+    const [invite, setInvite] = React.useState<Invite | null>(null);
+    const [answer, setAnswer] = React.useState("");
+    const [busy, setBusy] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    // an invite nobody answered must not keep its connection attempt alive
+    const pending = React.useRef<Invite | null>(null);
+    React.useEffect(() => () => pending.current?.close(), []);
+
+    const onCreate = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const created = await createInvite(roomCode);
+            pending.current?.close();
+            pending.current = created;
+            setInvite(created);
+            setAnswer("");
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onAccept = async () => {
+        if (!invite) return;
+        setError(null);
+        try {
+            await invite.accept(answer);
+            pending.current = null;
+            setInvite(null);
+            invite.opened.then(
+                onGuest,
+                () => setError("The guest could not connect. Create a new invite and try again.")
+            );
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3 space-y-2">
+            <div className="text-xs text-slate-400">Invite a player or spectator (one invite per guest)</div>
+            {!invite ? (
+                <Btn kind="secondary" className="w-full" disabled={busy} onClick={onCreate}>
+                    {busy ? "Creating invite…" : "Create invite code"}
+                </Btn>
+            ) : (
+                <>
+                    <div className="text-xs text-slate-400">1. Send this invite code to the guest</div>
+                    <textarea readOnly value={invite.code} onFocus={(e) => e.target.select()} className={codeBox} />
+                    <div className="text-xs text-slate-400">2. Paste their answer code</div>
+                    <textarea value={answer} onChange={(e) => setAnswer(e.target.value)} className={codeBox} />
+                    <Btn kind="primary" className="w-full" disabled={!answer.trim()} onClick={onAccept}>
+                        Connect guest
+                    </Btn>
+                </>
+            )}
+            {error && <div className="text-sm text-rose-300">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+// src/components/PeerJoin.tsx
+import React from "react";
+import type { PeerAnswer } from "../net/peer";
+import { answerInvite } from "../net/peer";
+
+import Btn from "./Btn";
+
+type Props = {
+    disabled?: boolean;
+    onConnected: (channel: RTCDataChannel, roomCode: string) => void;
+};
+
+const codeBox =
+    "w-full h-20 rounded-lg border border-slate-700 bg-slate-950/60 px-3 py-2 font-mono text-[11px] text-slate-300 break-all";
+
+/** Guest side of peer-to-peer signaling: paste the host's invite, send back the answer code */
+export default function PeerJoin({ disabled, onConnected }: Props) {
+    const [inviteCode, setInviteCode] = React.useState("");
+    const [answer, setAnswer] = React.useState<PeerAnswer | null>(null);
+    const [busy, setBusy] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const pending = React.useRef<PeerAnswer | null>(null);
+    React.useEffect(() => () => pending.current?.close(), []);
+
+    const onAnswer = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const created = await answerInvite(inviteCode);
+            pending.current?.close();
+            pending.current = created;
+            setAnswer(created);
+            created.opened.then(
+                (channel) => {
+                    pending.current = null;
+                    onConnected(channel, created.room);
+                },
+                () => setError("Could not connect to the host. Ask for a new invite.")
+            );
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {!answer ? (
+                <>
+                    <div className="text-xs text-slate-400">Paste the host's invite code</div>
+                    <textarea value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} className={codeBox} />
+                    <Btn kind="secondary" className="w-full" disabled={disabled || busy || !inviteCode.trim()} onClick={onAnswer}>
+                        {busy ? "Creating answer…" : "Create answer code"}
+                    </Btn>
+                </>
+            ) : (
+                <>
+                    <div className="text-xs text-slate-400">Send this answer code back to the host, then wait</div>
+                    <textarea readOnly value={answer.code} onFocus={(e) => e.target.select()} className={codeBox} />
+                    <div className="text-sm text-slate-400 animate-pulse">Waiting for the host to connect…</div>
+                </>
+            )}
+            {error && <div className="text-sm text-rose-300">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+// src/components/ReplayViewer.tsx
+import React from "react";
+import type { GameEvent, GameState } from "../game/state";
+import { isWildRank, rankLabel } from "../game/rules";
+import { replayGame } from "../game/replay";
+import { assignedRank } from "../game/validator";
+
+import Btn from "./Btn";
+import CardChip from "./CardChip";
+
+type Props = {
+    state: GameState;
+    onClose: () => void;
+};
+
+/**
+ * 1イベント分の説明文（適用後の状態から名前・カードを引く。山札の補充の仕方は適用前の状態で見分ける）
+ */
+function describeEvent(event: GameEvent, before: GameState, after: GameState, showSeeds: boolean): string {
+    const name = after.players.find((p) => p.id === event.playerId)?.name ?? event.playerId;
+    const action = event.action;
+    switch (action.type) {
+        case "DRAW_DECK":
+            if (event.seed === undefined) return `${name} drew from the deck`;
+            // the engine shuffles in a fresh deck when the discard pile cannot refill the draw pile
+            return `${name} drew from the deck (${before.discardPile.length <= 1 ? "a fresh deck shuffled in" : "discard pile reshuffled"})`;
+        case "TAKE_DISCARD":
+            return `${name} took the top discard`;
+        case "MELD":
+            return `${name} melded ${action.cardIds.length} cards${action.meldType === "AUTO" ? "" : ` as a ${action.meldType}`}`;
+        case "LAYOFF":
+            return `${name} laid off ${action.cardIds.length} card(s)`;
+        case "DISCARD": {
+            const card = after.discardPile[after.discardPile.length - 1];
+            return `${name} discarded ${card ? `${rankLabel(card.rank)} ${card.suit}` : "a card"}`;
+        }
+        case "NEXT_ROUND":
+            return `Round ${after.round} dealt${showSeeds ? ` (seed ${event.seed})` : ""}`;
+        case "SORT":
+            return `${name} sorted their hand`;
+        case "SELECT":
+            return `${name} selected cards`;
+        case "SWAP_WILD":
+            return `${name} swapped a natural card for a wild on the table`;
+        case "UNDO":
+            return `${name} undid their last meld / lay off`;
+        case "REDO":
+            return `${name} redid a meld / lay off`;
+    }
+}
+
+export default function ReplayViewer({ state, onClose }: Props) {
+    const replay = React.useMemo(() => replayGame(state), [state]);
+    const lastStep = replay.ok ? replay.value.length - 1 : 0;
+    const [step, setStep] = React.useState(lastStep);
+
+    const go = (to: number) => setStep(Math.max(0, Math.min(lastStep, to)));
+    // a seed predicts every later deal: like viewFor, keep them back until the game is over
+    const showSeeds = state.status === "GAME_OVER";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm overflow-y-auto p-4 md:p-8">
+            <div className="mx-auto max-w-5xl rounded-2xl border border-slate-700 bg-slate-900/80 p-4 md:p-6 space-y-4">
+                <div className="flex items-center justify-between gap-3">
+                    <div>
+                        <div className="text-xs text-slate-400">Replay{showSeeds && ` · seed ${state.setup.seed}`}</div>
+                        <div className="text-lg font-semibold text-white">
+                            Step {step} / {lastStep}
+                        </div>
+                    </div>
+                    <Btn kind="ghost" onClick={onClose}>
+                        Close
+                    </Btn>
+                </div>
+
+                {!replay.ok ? (
+                    <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-sm text-rose-200">
+                        Replay unavailable: {replay.error.message}
+                    </div>
+                ) : (
+                    (() => {
+                        const frame = replay.value[step];
+                        const s = frame.state;
+                        return (
+                            <>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <Btn onClick={() => go(0)} disabled={step === 0}>⏮</Btn>
+                                    <Btn onClick={() => go(step - 1)} disabled={step === 0}>◀</Btn>
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={lastStep}
+                                        value={step}
+                                        onChange={(e) => go(Number(e.target.value))}
+                                        className="flex-1 min-w-[160px] accent-slate-100"
+                                    />
+                                    <Btn onClick={() => go(step + 1)} disabled={step === lastStep}>▶</Btn>
+                                    <Btn onClick={() => go(lastStep)} disabled={step === lastStep}>⏭</Btn>
+                                </div>
+
+                                <div className="rounded-xl border border-slate-700 bg-slate-950/40 p-3 text-sm text-slate-200">
+                                    <span className="text-slate-400 mr-2">
+                                        Round {s.round} · Wild {rankLabel(s.rule.wildRank)}
+                                    </span>
+                                    {frame.event ? describeEvent(frame.event, replay.value[step - 1].state, s, showSeeds) : "Opening deal"}
+                                </div>
+
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    {s.players.map((p, idx) => (
+                                        <div
+                                            key={p.id}
+                                            className={`rounded-xl border p-3 ${idx === s.currentPlayerIndex ? "border-slate-100" : "border-slate-800"} bg-slate-950/30`}
+                                        >
+                                            <div className="flex items-center justify-between mb-2">
+                                                <div className="font-medium">
+                                                    {p.name}
+                                                    {idx === s.dealerIndex && <span className="ml-2 text-xs text-sky-200">dealer</span>}
+                                                </div>
+                                                <div className="text-xs text-slate-400">Score: {p.score}</div>
+                                            </div>
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {p.hand.length === 0 ? (
+                                                    <span className="text-xs text-slate-500">Empty hand</span>
+                                                ) : (
+                                                    p.hand.map((c) => (
+                                                        <CardChip key={c.id} card={c} isWild={isWildRank(c.rank, s.rule)} />
+                                                    ))
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+                                    <div className="text-xs text-slate-400 mb-2">
+                                        Discard pile ({s.discardPile.length}) · Draw pile {s.drawPile.length}
+                                    </div>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {s.discardPile.slice(-8).map((c) => (
+                                            <CardChip key={c.id} card={c} isWild={isWildRank(c.rank, s.rule)} />
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3 space-y-2">
+                                    <div className="text-xs text-slate-400">Melds</div>
+                                    {s.melds.length === 0 ? (
+                                        <div className="text-slate-500 text-sm">No melds yet.</div>
+                                    ) : (
+                                        s.melds.map((m) => (
+                                            <div key={m.id} className="flex flex-wrap items-center gap-1.5">
+                                                <span className="text-[10px] text-slate-400 font-bold uppercase w-24">
+                                                    {m.type} · {s.players.find((p) => p.id === m.playerId)?.name ?? m.playerId}
+                                                </span>
+                                                {m.cards.map((c, i) => (
+                                                    <CardChip
+                                                        key={c.id}
+                                                        card={c}
+                                                        isWild={isWildRank(c.rank, s.rule)}
+                                                        standsFor={assignedRank(m.assignment, i)}
+                                                    />
+                                                ))}
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+                            </>
+                        );
+                    })()
+                )}
+            </div>
+        </div>
+    );
+}
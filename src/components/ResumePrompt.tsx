@@ -0,0 +1,47 @@
+// src/components/ResumePrompt.tsx
+import type { GameState } from "../game/state";
+import type { SaveError } from "../game/save";
+import Btn from "./Btn";
+
+type Props = {
+    saved: { ok: true; value: GameState } | { ok: false; error: SaveError };
+    onResume: (state: GameState) => void;
+    onNewGame: () => void;
+};
+
+export default function ResumePrompt({ saved, onResume, onNewGame }: Props) {
+    return (
+        <div className="min-h-screen bg-slate-950 text-slate-100 p-4 md:p-8 font-sans game-grid flex items-center justify-center">
+            <div className="w-full max-w-md rounded-2xl border border-slate-700 bg-slate-900/60 p-6 space-y-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight text-white">Flux Rounds</h1>
+                    <p className="text-slate-400 text-sm mt-1">
+                        {saved.ok ? "A saved game was found." : "A saved game could not be loaded."}
+                    </p>
+                </div>
+
+                {saved.ok ? (
+                    <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3 space-y-1">
+                        <div className="text-sm text-slate-200 font-medium">Round {saved.value.round}</div>
+                        <div className="text-xs text-slate-400">
+                            {saved.value.players.map((p) => `${p.name} (${p.score})`).join(" · ")}
+                        </div>
+                    </div>
+                ) : (
+                    <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-sm text-rose-200">
+                        {saved.error.message}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    {saved.ok && (
+                        <Btn kind="primary" onClick={() => onResume(saved.value)}>
+                            Resume game
+                        </Btn>
+                    )}
+                    <Btn onClick={onNewGame}>Start new game</Btn>
+                </div>
+            </div>
+        </div>
+    );
+}
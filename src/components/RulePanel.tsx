@@ -1,6 +1,6 @@
 // src/components/RulePanel.tsx
-import type { RoundRule } from "../game/types";
-import { FiveCrownsCompat, rankLabel } from "../game/rules";
+import type { RoundRule, RuleSet } from "../game/types";
+import { DEFAULT_RULESET, rankLabel } from "../game/rules";
 
 type Props = {
     round: number;
@@ -8,9 +8,29 @@ type Props = {
     rule: RoundRule;
     phase: "NEED_DRAW" | "NEED_DISCARD";
     outInfo?: { outBy?: string; turnsLeft?: number };
+    turnOrder?: { dealer: string; leader: string }; // player names
 };
 
-export default function RulePanel({ round, totalRounds, rule, phase, outInfo }: Props) {
+/** House rules that differ from the Five Crowns baseline, as short labels */
+function houseRuleLabels(rules: RuleSet): string[] {
+    const labels: string[] = [];
+    if (rules.decks !== DEFAULT_RULESET.decks || rules.jokersPerDeck !== DEFAULT_RULESET.jokersPerDeck) {
+        labels.push(`${rules.decks} deck(s), ${rules.decks * rules.jokersPerDeck} Jokers`);
+    }
+    if (rules.minMeldSize !== DEFAULT_RULESET.minMeldSize) labels.push(`Melds of ${rules.minMeldSize}+ cards`);
+    if (!rules.allowAllWildMelds) labels.push("No all-wild melds");
+    if (!rules.allowLayoffBeforeFirstMeld) labels.push("Meld before laying off");
+    if (!rules.goOutRequiresDiscard) labels.push("Go out without a discard");
+    if (rules.allowWildSwap) labels.push("Wild swaps");
+    if (!rules.rotateDealer) labels.push("No dealer rotation");
+    if (rules.drawPileExhausted === "END_ROUND") labels.push("Round ends when the cards run out");
+    return labels;
+}
+
+export default function RulePanel({ round, totalRounds, rule, phase, outInfo, turnOrder }: Props) {
+    const rules = rule.ruleSet;
+    const houseRules = houseRuleLabels(rules);
+
     return (
         <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
             <div className="flex items-start justify-between">
@@ -36,6 +56,16 @@ export default function RulePanel({ round, totalRounds, rule, phase, outInfo }:
                 </div>
             </div>
 
+            {turnOrder && (
+                <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3 text-sm">
+                    <span className="text-xs text-slate-400">Dealer</span>{" "}
+                    <span className="font-semibold">{turnOrder.dealer}</span>
+                    <span className="text-slate-500"> → </span>
+                    <span className="font-semibold">{turnOrder.leader}</span>{" "}
+                    <span className="text-xs text-slate-400">starts</span>
+                </div>
+            )}
+
             <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
                 <div className="text-xs text-slate-400 mb-2">Turn Flow</div>
                 <div className="flex items-center gap-2 text-sm">
@@ -53,10 +83,23 @@ export default function RulePanel({ round, totalRounds, rule, phase, outInfo }:
                 </div>
 
                 <div className="text-xs text-slate-500 mt-2">
-                    Scoring: Joker {FiveCrownsCompat.jokerPenalty}, Wild {FiveCrownsCompat.wildPenalty}, others = face value.
+                    Scoring: Joker {rules.penalties.jokerPenalty}, Wild {rules.penalties.wildPenalty}, others = face value.
                 </div>
             </div>
 
+            {houseRules.length > 0 && (
+                <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-3">
+                    <div className="text-xs text-slate-400 mb-2">House Rules</div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {houseRules.map((label) => (
+                            <span key={label} className="text-xs px-2 py-1 rounded-lg border border-slate-700 bg-slate-900/50 text-slate-200">
+                                {label}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {outInfo?.outBy && (
                 <div className="rounded-xl border border-amber-400/40 bg-amber-400/5 p-3">
                     <div className="text-sm text-amber-200 font-medium">Final Turns Active</div>
@@ -0,0 +1,146 @@
+// src/components/Scoreboard.tsx
+import React from "react";
+import type { TableView } from "../game/view";
+import type { PenaltyKind, RoundResult } from "../game/scoring";
+import { FiveCrownsCompat, getRoundRule, rankLabel } from "../game/rules";
+
+import Btn from "./Btn";
+import CardChip from "./CardChip";
+
+type Props = {
+    state: TableView;
+    onClose: () => void;
+};
+
+const PENALTY_NOTE: Record<PenaltyKind, string | null> = {
+    JOKER: "Joker",
+    WILD: "wild",
+    NATURAL: null,
+};
+
+function RoundBreakdown({ result, state }: { result: RoundResult; state: TableView }) {
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {result.scores.map((score) => {
+                const name = state.players.find((p) => p.id === score.playerId)?.name ?? score.playerId;
+                return (
+                    <div key={score.playerId} className="rounded-xl border border-slate-800 bg-slate-950/30 p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                            <div className="font-medium">
+                                {name}
+                                {score.wentOut && <span className="ml-2 text-xs text-emerald-300">went out</span>}
+                            </div>
+                            <div className="font-semibold">{score.points}</div>
+                        </div>
+                        {score.handCards.length === 0 ? (
+                            <div className="text-xs text-slate-500">No cards left.</div>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                {score.handCards.map((card, i) => {
+                                    const penalty = score.penalties[i];
+                                    const note = PENALTY_NOTE[penalty.kind];
+                                    return (
+                                        <div key={card.id} className="flex flex-col items-center gap-0.5">
+                                            <CardChip card={card} isWild={penalty.kind !== "NATURAL"} />
+                                            <span className="text-[10px] text-slate-400">
+                                                {penalty.points}
+                                                {note && ` (${note})`}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+/**
+ * Round-by-round score table (all 11 rounds) with a per-card breakdown of the selected round
+ */
+export default function Scoreboard({ state, onClose }: Props) {
+    const byRound = new Map(state.roundResults.map((r) => [r.round, r]));
+    const latest = state.roundResults[state.roundResults.length - 1];
+    const [openRound, setOpenRound] = React.useState<number | null>(latest?.round ?? null);
+    const open = openRound === null ? undefined : byRound.get(openRound);
+    const rounds = Array.from({ length: FiveCrownsCompat.totalRounds }, (_, i) => i + 1);
+
+    return (
+        <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-sm overflow-y-auto p-4 md:p-8">
+            <div className="mx-auto max-w-5xl rounded-2xl border border-slate-700 bg-slate-900/80 p-4 md:p-6 space-y-4">
+                <div className="flex items-center justify-between gap-3">
+                    <div className="text-lg font-semibold text-white">Scoreboard</div>
+                    <Btn kind="ghost" onClick={onClose}>
+                        Close
+                    </Btn>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs text-slate-400 border-b border-slate-800">
+                                <th className="text-left font-medium py-2 pr-3">Round</th>
+                                <th className="text-left font-medium py-2 pr-3">Wild</th>
+                                {state.players.map((p) => (
+                                    <th key={p.id} className="text-right font-medium py-2 px-2">{p.name}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rounds.map((round) => {
+                                const result = byRound.get(round);
+                                return (
+                                    <tr
+                                        key={round}
+                                        onClick={() => result && setOpenRound(round)}
+                                        className={`border-b border-slate-800/60 ${result ? "cursor-pointer hover:bg-slate-800/40" : "text-slate-600"} ${round === openRound ? "bg-slate-800/60" : ""}`}
+                                    >
+                                        <td className="py-1.5 pr-3">{round}</td>
+                                        <td className="py-1.5 pr-3">{rankLabel(getRoundRule(round).wildRank)}</td>
+                                        {state.players.map((p) => {
+                                            const score = result?.scores.find((s) => s.playerId === p.id);
+                                            return (
+                                                <td key={p.id} className="py-1.5 px-2 text-right tabular-nums">
+                                                    {score ? (
+                                                        <>
+                                                            {score.wentOut && <span className="mr-1 text-emerald-300">★</span>}
+                                                            {score.points}
+                                                        </>
+                                                    ) : (
+                                                        "—"
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                        <tfoot>
+                            <tr className="font-semibold text-slate-100">
+                                <td className="py-2 pr-3" colSpan={2}>Total</td>
+                                {state.players.map((p) => (
+                                    <td key={p.id} className="py-2 px-2 text-right tabular-nums">{p.score}</td>
+                                ))}
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+
+                {open ? (
+                    <div className="space-y-2">
+                        <div className="text-xs text-slate-400">
+                            Round {open.round} leftovers · Wild {rankLabel(open.wildRank)} · Joker {state.setup.rules.penalties.jokerPenalty}, wild {state.setup.rules.penalties.wildPenalty}
+                        </div>
+                        <RoundBreakdown result={open} state={state} />
+                    </div>
+                ) : (
+                    <div className="text-sm text-slate-500">No rounds finished yet.</div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,217 @@
+// src/components/SetupScreen.tsx
+import React from "react";
+import type { DrawPileExhaustion, RuleSet } from "../game/types";
+import type { BotLevel, NewGameOptions, PlayerKind, SeatConfig } from "../game/state";
+import { MAX_PLAYERS, MIN_PLAYERS, checkNewGame } from "../game/state";
+import { DEFAULT_RULESET, MAX_DECKS, MAX_JOKERS_PER_DECK } from "../game/rules";
+
+import Btn from "./Btn";
+
+type Props = {
+    initial?: NewGameOptions; // pre-filled settings (rematch)
+    onStart: (options: NewGameOptions) => void;
+    onPlayOnline?: () => void;
+};
+
+const DEFAULT_SETUP: NewGameOptions = {
+    seats: [{ name: "Player 1" }, { name: "CPU", kind: "bot", botLevel: "hard" }],
+    startDiscard: true,
+};
+
+/** Seat type as picked in one select: human, or a bot with its level */
+type SeatType = "human" | `bot-${BotLevel}`;
+
+const SEAT_TYPES: { value: SeatType; label: string }[] = [
+    { value: "human", label: "Human" },
+    { value: "bot-easy", label: "Bot · easy" },
+    { value: "bot-hard", label: "Bot · hard" },
+];
+
+type RuleToggle = { [K in keyof RuleSet]: RuleSet[K] extends boolean ? K : never }[keyof RuleSet];
+
+/** House rules that are on / off, worded as what they allow */
+const RULE_TOGGLES: { key: RuleToggle; label: string }[] = [
+    { key: "goOutRequiresDiscard", label: "Going out needs a final discard" },
+    { key: "allowLayoffBeforeFirstMeld", label: "Lay off before your own first meld" },
+    { key: "allowAllWildMelds", label: "Melds made only of wilds" },
+    { key: "allowWildSwap", label: "Swap a natural card for a wild on the table" },
+    { key: "rotateDealer", label: "Rotate the dealer each round" },
+];
+
+const seatType = (seat: SeatConfig): SeatType => (seat.kind === "bot" ? `bot-${seat.botLevel ?? "easy"}` : "human");
+
+const withSeatType = (seat: SeatConfig, type: SeatType): SeatConfig => {
+    const kind: PlayerKind = type === "human" ? "human" : "bot";
+    return { name: seat.name, kind, ...(kind === "bot" ? { botLevel: type === "bot-hard" ? "hard" : "easy" } : {}) };
+};
+
+/** Digits are a numeric seed (like the badge shows), anything else is hashed as text */
+function parseSeed(text: string): number | string | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) return undefined;
+    return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+const inputCls = "w-full rounded-lg border border-slate-700 bg-slate-950/60 px-3 py-2 text-sm text-slate-100";
+const numberCls = "w-16 rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-1 text-sm text-slate-100";
+
+/**
+ * Table setup before a local game: seats (2–7, human or bot), seed, starting discard and the house rules.
+ * The options are checked with the same rules newGame applies, so Start only enables for a game that can be dealt.
+ */
+export default function SetupScreen({ initial = DEFAULT_SETUP, onStart, onPlayOnline }: Props) {
+    const [seats, setSeats] = React.useState<SeatConfig[]>(() => initial.seats ?? DEFAULT_SETUP.seats ?? []);
+    const [seed, setSeed] = React.useState(() => (initial.seed === undefined ? "" : String(initial.seed)));
+    const [startDiscard, setStartDiscard] = React.useState(initial.startDiscard ?? true);
+    // penalties are not editable here, but a rematch keeps them
+    const [rules, setRules] = React.useState<RuleSet>(() => ({
+        ...DEFAULT_RULESET,
+        ...initial.rules,
+        penalties: { ...DEFAULT_RULESET.penalties, ...initial.rules?.penalties },
+    }));
+    const setRule = <K extends keyof RuleSet>(key: K, value: RuleSet[K]) => setRules((prev) => ({ ...prev, [key]: value }));
+    const count = (text: string) => Math.floor(Number(text) || 0);
+
+    // blank names fall back to the seat number, so they never block the start
+    const options: NewGameOptions = {
+        seats: seats.map((s, i) => ({ ...s, name: s.name.trim() || `Player ${i + 1}` })),
+        seed: parseSeed(seed),
+        startDiscard,
+        rules,
+    };
+    const problem = checkNewGame(options);
+
+    const updateSeat = (index: number, seat: SeatConfig) => setSeats((prev) => prev.map((s, i) => (i === index ? seat : s)));
+
+    return (
+        <div className="min-h-screen bg-slate-950 text-slate-100 p-4 md:p-8 font-sans game-grid flex items-center justify-center">
+            <div className="w-full max-w-lg rounded-2xl border border-slate-700 bg-slate-900/60 p-6 space-y-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight text-white">Flux Rounds · New game</h1>
+                    <p className="text-slate-400 text-sm mt-1">
+                        {MIN_PLAYERS}–{MAX_PLAYERS} players around one device, humans and bots mixed.
+                    </p>
+                </div>
+
+                <div className="space-y-2">
+                    {seats.map((seat, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                            <input
+                                value={seat.name}
+                                onChange={(e) => updateSeat(i, { ...seat, name: e.target.value })}
+                                placeholder={`Player ${i + 1}`}
+                                maxLength={20}
+                                className={inputCls}
+                            />
+                            <select
+                                value={seatType(seat)}
+                                onChange={(e) => updateSeat(i, withSeatType(seat, e.target.value as SeatType))}
+                                className="rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-2 text-sm text-slate-100"
+                            >
+                                {SEAT_TYPES.map((t) => (
+                                    <option key={t.value} value={t.value}>
+                                        {t.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <Btn
+                                kind="ghost"
+                                disabled={seats.length <= MIN_PLAYERS}
+                                onClick={() => setSeats((prev) => prev.filter((_, j) => j !== i))}
+                            >
+                                ✕
+                            </Btn>
+                        </div>
+                    ))}
+                    <Btn
+                        kind="ghost"
+                        disabled={seats.length >= MAX_PLAYERS}
+                        onClick={() => setSeats((prev) => [...prev, { name: `Player ${prev.length + 1}` }])}
+                    >
+                        + Add player
+                    </Btn>
+                </div>
+
+                <label className="block text-xs text-slate-400">
+                    Seed (optional: a number or any text replays the same deals)
+                    <input value={seed} onChange={(e) => setSeed(e.target.value)} placeholder="Random" className={`mt-1 ${inputCls}`} />
+                </label>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm text-slate-300">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={startDiscard} onChange={(e) => setStartDiscard(e.target.checked)} />
+                        Start with a face-up discard
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Decks
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_DECKS}
+                            value={rules.decks}
+                            onChange={(e) => setRule("decks", count(e.target.value))}
+                            className={numberCls}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Jokers per deck
+                        <input
+                            type="number"
+                            min={0}
+                            max={MAX_JOKERS_PER_DECK}
+                            value={rules.jokersPerDeck}
+                            onChange={(e) => setRule("jokersPerDeck", count(e.target.value))}
+                            className={numberCls}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        When the cards run out
+                        <select
+                            value={rules.drawPileExhausted}
+                            onChange={(e) => setRule("drawPileExhausted", e.target.value as DrawPileExhaustion)}
+                            className="rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-1 text-sm text-slate-100"
+                        >
+                            <option value="NEW_DECK">Open a new deck</option>
+                            <option value="END_ROUND">End the round</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Smallest meld
+                        <input
+                            type="number"
+                            min={2}
+                            max={4}
+                            value={rules.minMeldSize}
+                            onChange={(e) => setRule("minMeldSize", count(e.target.value))}
+                            className={numberCls}
+                        />
+                    </label>
+                </div>
+
+                <div className="grid gap-1 sm:grid-cols-2 text-sm text-slate-300">
+                    {RULE_TOGGLES.map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-2">
+                            <input type="checkbox" checked={rules[key]} onChange={(e) => setRule(key, e.target.checked)} />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+
+                {problem && (
+                    <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 text-sm text-rose-200">{problem}</div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <Btn kind="primary" disabled={problem !== null} onClick={() => onStart(options)}>
+                        Start game
+                    </Btn>
+                    {onPlayOnline && (
+                        <Btn kind="ghost" onClick={onPlayOnline}>
+                            Play online
+                        </Btn>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
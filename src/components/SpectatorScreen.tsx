@@ -0,0 +1,176 @@
+// src/components/SpectatorScreen.tsx
+import React from "react";
+import type { SpectatorOptions, SpectatorView } from "../game/view";
+import { FiveCrownsCompat, isWildRank, rankLabel } from "../game/rules";
+import { leaderIndex } from "../game/state";
+
+import Btn from "./Btn";
+import CardTile from "./CardTile";
+import MeldTable from "./MeldTable";
+import RulePanel from "./RulePanel";
+import Scoreboard from "./Scoreboard";
+
+type Props = {
+    view: SpectatorView;
+    onClose: () => void;
+    closeLabel?: string;
+    // what is revealed; only editable where the watcher may choose (the local table)
+    options?: SpectatorOptions;
+    onOptionsChange?: (options: SpectatorOptions) => void;
+};
+
+const MAX_DELAY_TURNS = 20;
+
+/** Read-only table for people watching: piles, melds, hand counts, scores, and revealed hands if allowed */
+export default function SpectatorScreen({ view, onClose, closeLabel, options, onOptionsChange }: Props) {
+    const [showScoreboard, setShowScoreboard] = React.useState(false);
+    const currentPlayer = view.players[view.currentPlayerIndex];
+    const topDiscard = view.discardPile[view.discardPile.length - 1];
+
+    return (
+        <div className="fixed inset-0 z-40 overflow-y-auto bg-slate-950 text-slate-100 p-4 md:p-8 font-sans game-grid">
+            <div className="mx-auto max-w-6xl space-y-4">
+                <header className="flex flex-col gap-2 md:flex-row md:items-end md:justify-between">
+                    <div>
+                        <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-white">Flux Rounds · Spectating</h1>
+                        <p className="text-slate-400 text-sm mt-1">
+                            {view.status === "PLAYING" ? `${currentPlayer.name} to play` : view.status === "ROUND_END" ? "Round over" : "Game over"}
+                            {" · "}
+                            {view.hands === null
+                                ? "hands hidden"
+                                : view.delayedTurns > 0
+                                    ? `hands revealed, ${view.delayedTurns} turn${view.delayedTurns === 1 ? "" : "s"} behind`
+                                    : "hands revealed, live"}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Btn kind="ghost" onClick={() => setShowScoreboard(true)}>
+                            Scoreboard
+                        </Btn>
+                        <Btn kind="ghost" onClick={onClose}>
+                            {closeLabel ?? "Close"}
+                        </Btn>
+                    </div>
+                </header>
+
+                {options && onOptionsChange && (
+                    <div className="flex flex-wrap items-center gap-4 rounded-2xl border border-slate-800 bg-slate-900/40 p-3 text-sm text-slate-300">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={options.revealHands}
+                                onChange={(e) => onOptionsChange({ ...options, revealHands: e.target.checked })}
+                            />
+                            Reveal all hands
+                        </label>
+                        <label className="flex items-center gap-2">
+                            Delay
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_DELAY_TURNS}
+                                value={options.delayTurns}
+                                disabled={!options.revealHands}
+                                onChange={(e) =>
+                                    onOptionsChange({
+                                        ...options,
+                                        delayTurns: Math.max(0, Math.min(MAX_DELAY_TURNS, Math.floor(Number(e.target.value) || 0))),
+                                    })
+                                }
+                                className="w-16 rounded-lg border border-slate-700 bg-slate-950/60 px-2 py-1 text-slate-100 disabled:opacity-50"
+                            />
+                            turns
+                        </label>
+                    </div>
+                )}
+
+                <section className="grid grid-cols-1 lg:grid-cols-12 gap-4">
+                    <div className="lg:col-span-4 space-y-4">
+                        <RulePanel
+                            round={view.round}
+                            totalRounds={FiveCrownsCompat.totalRounds}
+                            rule={view.rule}
+                            phase={view.turnPhase}
+                            outInfo={{ outBy: view.outTriggeredByPlayerId, turnsLeft: view.turnsRemainingAfterOut }}
+                            turnOrder={{
+                                dealer: view.players[view.dealerIndex].name,
+                                leader: view.players[leaderIndex(view.dealerIndex, view.players.length)].name,
+                            }}
+                        />
+
+                        <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+                            <div className="text-sm text-slate-300">Piles</div>
+                            <div className="flex items-center justify-between gap-3">
+                                <div>
+                                    <div className="text-slate-300 text-sm">Draw</div>
+                                    <div className="text-lg font-semibold">{view.drawPileCount}</div>
+                                </div>
+                                <div className="text-right">
+                                    <div className="text-slate-300 text-sm mb-1">Discard Top</div>
+                                    {topDiscard ? (
+                                        <CardTile card={topDiscard} isWild={isWildRank(topDiscard.rank, view.rule)} />
+                                    ) : (
+                                        <div className="text-sm text-slate-400">-</div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="lg:col-span-8 space-y-4">
+                        <div className="space-y-3">
+                            {view.players.map((p, idx) => {
+                                const hand = view.hands?.[p.id];
+                                return (
+                                    <div
+                                        key={p.id}
+                                        className={`rounded-2xl border p-4 ${idx === view.currentPlayerIndex && view.status === "PLAYING" ? "border-slate-100" : "border-slate-800"} bg-slate-900/40`}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <div className="font-medium flex items-center gap-2">
+                                                {p.name}
+                                                {p.kind === "bot" && (
+                                                    <span className="text-[10px] text-slate-400 bg-slate-800 px-1.5 py-0.5 rounded uppercase font-bold">
+                                                        Bot · {p.botLevel ?? "easy"}
+                                                    </span>
+                                                )}
+                                                {idx === view.dealerIndex && (
+                                                    <span className="text-[10px] text-sky-200 bg-sky-500/10 px-1.5 py-0.5 rounded uppercase font-bold">
+                                                        Dealer
+                                                    </span>
+                                                )}
+                                                {p.id === view.outTriggeredByPlayerId && (
+                                                    <span className="text-[10px] text-amber-200 bg-amber-500/10 px-1.5 py-0.5 rounded uppercase font-bold">
+                                                        Out
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <div className="text-slate-300 text-sm">
+                                                Hand: {p.handCount} · Score: {p.score}
+                                            </div>
+                                        </div>
+                                        {hand && hand.length > 0 && (
+                                            <div className="mt-3 flex flex-wrap gap-2">
+                                                {hand.map((c) => (
+                                                    <CardTile key={c.id} card={c} isWild={isWildRank(c.rank, view.rule)} />
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        <MeldTable melds={view.melds} players={view.players} rule={view.rule} />
+
+                        <div className="text-xs text-slate-500">
+                            Round {view.round} · Wild {rankLabel(view.rule.wildRank)} · {view.log.length} actions
+                        </div>
+                    </div>
+                </section>
+            </div>
+
+            {showScoreboard && <Scoreboard state={view} onClose={() => setShowScoreboard(false)} />}
+        </div>
+    );
+}
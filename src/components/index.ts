@@ -2,3 +2,15 @@
 export { default as CardTile } from "./CardTile";
 export { default as RulePanel } from "./RulePanel";
 export { default as GameView } from "./GameView";
+export { default as MeldTable } from "./MeldTable";
+export { default as SpectatorScreen } from "./SpectatorScreen";
+export { default as ResumePrompt } from "./ResumePrompt";
+export { default as SetupScreen } from "./SetupScreen";
+export { default as OnlineLobby } from "./OnlineLobby";
+export { default as PeerInvite } from "./PeerInvite";
+export { default as PeerJoin } from "./PeerJoin";
+export { default as ReplayViewer } from "./ReplayViewer";
+export { default as PassDeviceScreen } from "./PassDeviceScreen";
+export { default as Scoreboard } from "./Scoreboard";
+export { default as Btn } from "./Btn";
+export { default as CardChip } from "./CardChip";
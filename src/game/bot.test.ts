@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import { getRoundRule } from "./rules";
+import { mulberry32 } from "./deck";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+import { chooseBotAction, findMelds } from "./bot";
+
+/**
+ * Test helpers
+ */
+const c = (suit: Suit, rank: Rank, id?: string): Card => ({
+    id: id ?? `${suit}-${rank}-${Math.random().toString(16).slice(2)}`,
+    suit,
+    rank,
+    deckIndex: 1,
+});
+
+describe("bot.findMelds", () => {
+    it("finds natural books and runs", () => {
+        const r = getRoundRule(1); // wild=3
+        const hand = [
+            c("HEARTS", 5), c("CLUBS", 5), c("SPADES", 5),
+            c("STARS", 9), c("STARS", 10), c("STARS", 11),
+            c("DIAMONDS", 13),
+        ];
+        const melds = findMelds(hand, r, false);
+        expect(melds.map((m) => m.type).sort()).toEqual(["BOOK", "RUN"]);
+    });
+
+    it("uses wilds only when allowed", () => {
+        const r = getRoundRule(1); // wild=3
+        const hand = [c("HEARTS", 7), c("CLUBS", 7), c("SPADES", 3)];
+        expect(findMelds(hand, r, false)).toHaveLength(0);
+        expect(findMelds(hand, r, true)).toHaveLength(1);
+    });
+});
+
+describe("bot.chooseBotAction", () => {
+    it("returns null for human seats", () => {
+        const s = newGame({ seed: 1 });
+        expect(chooseBotAction(s)).toBeNull();
+    });
+
+    it.each(["easy", "hard"] as const)("%s bots finish a full game with legal actions only", (level) => {
+        let s = newGame({
+            seed: 7,
+            seats: [
+                { name: "A", kind: "bot", botLevel: level },
+                { name: "B", kind: "bot", botLevel: level },
+            ],
+        });
+        const rng = mulberry32(7);
+
+        for (let step = 0; step < 20000 && s.status !== "GAME_OVER"; step++) {
+            const action = s.status === "ROUND_END" ? ({ type: "NEXT_ROUND" } as const) : chooseBotAction(s, rng);
+            expect(action).not.toBeNull();
+            const res = applyAction(s, action!);
+            if (!res.ok) throw new Error(`${action!.type}: ${res.error.message}`);
+            s = res.value;
+        }
+
+        expect(s.status).toBe("GAME_OVER");
+        expect(s.round).toBe(11);
+    });
+});
@@ -0,0 +1,254 @@
+// src/game/bot.ts
+import type { Card, MeldType, Rank, RoundRule, Suit } from "./types";
+import type { BotLevel, GameState } from "./state";
+import type { PlayerView } from "./view";
+import { viewFor } from "./view";
+import type { GameAction } from "./engine";
+import { canLayOff } from "./engine";
+import type { Rng } from "./deck";
+import { defaultRng } from "./deck";
+import { isWildRank } from "./rules";
+import { rankPenalty } from "./scoring";
+import { validateMeld, validateLayoff } from "./validator";
+import type { DiscardOption, MeldCandidate } from "./solver";
+import { solveDiscardOptions, solveHand } from "./solver";
+
+function penalty(card: Card, rule: RoundRule): number {
+    return rankPenalty(card.rank, rule);
+}
+
+/**
+ * Greedy, non-overlapping meld search.
+ * - Naturals first: books of 3+ same rank, then runs of 3+ consecutive ranks in one suit
+ * - useWilds: complete pairs / two-card run fragments with wilds, then attach spare wilds
+ */
+export function findMelds(hand: Card[], rule: RoundRule, useWilds: boolean): MeldCandidate[] {
+    const wildPool = hand.filter((c) => isWildRank(c.rank, rule));
+    const used = new Set<string>();
+    const melds: MeldCandidate[] = [];
+
+    const accept = (type: MeldType, cards: Card[]): boolean => {
+        if (!validateMeld(cards, type, rule).ok) return false;
+        melds.push({ type, cards });
+        for (const c of cards) used.add(c.id);
+        return true;
+    };
+
+    const naturalsByRank = (): Map<Rank, Card[]> => {
+        const map = new Map<Rank, Card[]>();
+        for (const c of hand) {
+            if (used.has(c.id) || isWildRank(c.rank, rule)) continue;
+            map.set(c.rank, [...(map.get(c.rank) ?? []), c]);
+        }
+        return map;
+    };
+
+    // one card per rank, sorted ascending
+    const runCandidates = (suit: Suit): Card[] => {
+        const byRank = new Map<number, Card>();
+        for (const c of hand) {
+            if (used.has(c.id) || isWildRank(c.rank, rule) || c.suit !== suit) continue;
+            if (!byRank.has(c.rank)) byRank.set(c.rank, c);
+        }
+        return [...byRank.values()].sort((a, b) => a.rank - b.rank);
+    };
+
+    const suits = [...new Set(hand.map((c) => c.suit))];
+
+    // 1) natural books
+    for (const group of naturalsByRank().values()) {
+        if (group.length >= rule.ruleSet.minMeldSize) accept("BOOK", group);
+    }
+
+    // 2) natural runs (maximal consecutive segments)
+    for (const suit of suits) {
+        const cards = runCandidates(suit);
+        let segment: Card[] = [];
+        for (const c of [...cards, null]) {
+            if (c && (segment.length === 0 || c.rank === segment[segment.length - 1].rank + 1)) {
+                segment.push(c);
+                continue;
+            }
+            if (segment.length >= rule.ruleSet.minMeldSize) accept("RUN", segment);
+            segment = c ? [c] : [];
+        }
+    }
+
+    if (!useWilds) return melds;
+
+    const takeWild = (): Card | undefined => wildPool.find((w) => !used.has(w.id));
+
+    // 3) pairs + wild → book
+    for (const group of naturalsByRank().values()) {
+        const wild = takeWild();
+        if (!wild) break;
+        if (group.length === 2) accept("BOOK", [...group, wild]);
+    }
+
+    // 4) two-card run fragments (adjacent or one gap) + wild → run
+    for (const suit of suits) {
+        const cards = runCandidates(suit);
+        for (let i = 0; i + 1 < cards.length; i++) {
+            const wild = takeWild();
+            if (!wild) break;
+            const [a, b] = [cards[i], cards[i + 1]];
+            if (used.has(a.id) || used.has(b.id)) continue;
+            if (b.rank - a.rank <= 2) accept("RUN", [a, b, wild]);
+        }
+    }
+
+    // 5) spare wilds: attach to an existing meld, or meld together if 3+
+    let wild = takeWild();
+    while (wild) {
+        const target = melds.find((m) => validateMeld([...m.cards, wild as Card], m.type, rule).ok);
+        if (target) {
+            target.cards = [...target.cards, wild];
+            used.add(wild.id);
+        } else {
+            const spare = wildPool.filter((w) => !used.has(w.id));
+            if (spare.length < 3 || !accept("BOOK", spare)) break;
+        }
+        wild = takeWild();
+    }
+
+    return melds;
+}
+
+/**
+ * A leftover card is "connected" when it could become part of a meld soon:
+ * a pair by rank, or a same-suit neighbour within 2 ranks.
+ */
+function isConnected(card: Card, others: Card[], rule: RoundRule): boolean {
+    if (isWildRank(card.rank, rule)) return true;
+    return others.some(
+        (o) =>
+            o.id !== card.id &&
+            !isWildRank(o.rank, rule) &&
+            (o.rank === card.rank || (o.suit === card.suit && Math.abs(o.rank - card.rank) <= 2))
+    );
+}
+
+function discountedPenalty(leftover: Card[], rule: RoundRule): number {
+    return leftover.reduce(
+        (total, c) => total + penalty(c, rule) * (isConnected(c, leftover, rule) ? 0.4 : 1),
+        0
+    );
+}
+
+/**
+ * Hand evaluation used by the hard bot: take the optimal partition (solver),
+ * then weigh the leftover penalty, discounting cards that are close to forming a meld.
+ */
+export function evaluateHand(hand: Card[], rule: RoundRule): number {
+    return discountedPenalty(solveHand(hand, rule).leftover, rule);
+}
+
+/** Hard bot plan for a post-draw hand: which card to discard, and the melds to lay down first */
+function bestDiscardOption(hand: Card[], rule: RoundRule): DiscardOption {
+    const options = solveDiscardOptions(hand, rule);
+    const naturals = options.filter((o) => !isWildRank(o.discard.rank, rule));
+    const pool = naturals.length > 0 ? naturals : options;
+
+    let best = pool[0];
+    let bestScore = discountedPenalty(best.solution.leftover, rule);
+    for (const option of pool.slice(1)) {
+        const score = discountedPenalty(option.solution.leftover, rule);
+        if (score < bestScore) {
+            best = option;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+function chooseEasyDiscard(hand: Card[], rule: RoundRule, rng: Rng): Card {
+    const naturals = hand.filter((c) => !isWildRank(c.rank, rule));
+    const pool = naturals.length > 0 ? naturals : hand;
+
+    // mostly throw the most expensive card, sometimes a random one
+    if (rng() < 0.3) return pool[Math.floor(rng() * pool.length)];
+    return pool.reduce((best, c) => (penalty(c, rule) > penalty(best, rule) ? c : best));
+}
+
+function chooseDraw(view: PlayerView, level: BotLevel, rng: Rng): GameAction {
+    const hand = view.hand;
+    const top = view.discardPile[view.discardPile.length - 1];
+    if (!top) return { type: "DRAW_DECK" };
+
+    // Taking a card must make progress, otherwise two bots can pass it back and forth forever:
+    // it leaves the hand again this turn (layoff / meld), or strictly improves the evaluation.
+    const laysOff = canLayOff(view, view.viewerId) && view.melds.some(
+        (m) => validateLayoff({ meldType: m.type, meldCards: m.cards, addedCards: [top], rule: view.rule, assignment: m.assignment }).ok
+    );
+    if (laysOff) return { type: "TAKE_DISCARD" };
+
+    if (level === "easy") {
+        const withTop = [...hand, top];
+        const melds = findMelds(withTop, view.rule, true);
+        const completesMeld = melds.some(
+            (m) => m.cards.some((c) => c.id === top.id) && withTop.length - m.cards.length >= 1
+        );
+        return completesMeld || rng() < 0.1 ? { type: "TAKE_DISCARD" } : { type: "DRAW_DECK" };
+    }
+
+    const plan = bestDiscardOption([...hand, top], view.rule);
+    if (plan.discard.id === top.id) return { type: "DRAW_DECK" };
+    return discountedPenalty(plan.solution.leftover, view.rule) < evaluateHand(hand, view.rule)
+        ? { type: "TAKE_DISCARD" }
+        : { type: "DRAW_DECK" };
+}
+
+/**
+ * Decide the next action for the current player if it is a bot.
+ * Returns null when it is not a bot's decision (round over, human seat).
+ * A bot turn is several actions: draw → meld/layoff (repeated) → discard.
+ * Bots decide from their own view (viewFor), so they never see other hands or the deck.
+ */
+export function chooseBotAction(state: GameState, rng: Rng = defaultRng): GameAction | null {
+    if (state.status !== "PLAYING") return null;
+    const me = state.players[state.currentPlayerIndex];
+    if (me.kind !== "bot") return null;
+
+    const view = viewFor(state, me.id);
+    const level = me.botLevel ?? "easy";
+    const hand = view.hand;
+
+    if (view.turnPhase === "NEED_DRAW") return chooseDraw(view, level, rng);
+
+    // RuleSet.goOutRequiresDiscard === false: melding the whole hand goes out, no card needs to stay
+    const keep = view.rule.ruleSet.goOutRequiresDiscard ? 1 : 0;
+
+    // hard: lay down the optimal partition (the planned discard is never part of it),
+    // or the whole hand when that goes out without a discard
+    const outright = level === "hard" && keep === 0 ? solveHand(hand, view.rule) : null;
+    const plan = level === "hard" ? bestDiscardOption(hand, view.rule) : null;
+    const melds = outright?.canGoOut
+        ? outright.melds
+        : plan ? plan.solution.melds : findMelds(hand, view.rule, true);
+
+    // Meld (keep 1 card for the discard unless going out without one)
+    for (const meld of melds) {
+        if (hand.length - meld.cards.length >= keep) {
+            return { type: "MELD", cardIds: meld.cards.map((c) => c.id), meldType: meld.type };
+        }
+    }
+
+    // Lay off single cards onto any meld on the table
+    if (hand.length > keep && canLayOff(view, me.id)) {
+        for (const card of hand) {
+            for (const meld of view.melds) {
+                const res = validateLayoff({
+                    meldType: meld.type,
+                    meldCards: meld.cards,
+                    addedCards: [card],
+                    rule: view.rule,
+                    assignment: meld.assignment,
+                });
+                if (res.ok) return { type: "LAYOFF", meldId: meld.id, cardIds: [card.id] };
+            }
+        }
+    }
+
+    const discard = plan ? plan.discard : chooseEasyDiscard(hand, view.rule, rng);
+    return { type: "DISCARD", cardId: discard.id };
+}
@@ -1,5 +1,6 @@
 // src/game/deck.ts
-import type { Card, Rank, Suit } from "./types";
+import type { Card, Rank, RuleSet, Suit } from "./types";
+import { FiveCrownsCompat } from "./rules";
 
 export type Rng = () => number;
 
@@ -15,6 +16,47 @@ export function mulberry32(seed: number): Rng {
     };
 }
 
+/** A fresh 32-bit seed for mulberry32 */
+export function randomSeed(rng: Rng = defaultRng): number {
+    return Math.floor(rng() * 0x100000000) >>> 0;
+}
+
+/** 32-bit avalanche (murmur3 finalizer) */
+function mix32(h: number): number {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85EBCA6B);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xC2B2AE35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
+
+/** FNV-1a hash, so any text (e.g. "tournament-7") can seed a game */
+export function seedFromString(text: string): number {
+    let h = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return mix32(h);
+}
+
+/** Independent sub-seed of `seed` for the given salt values (e.g. a round number) */
+export function deriveSeed(seed: number, ...salt: number[]): number {
+    let h = seed >>> 0;
+    for (const s of salt) h = mix32(Math.imul(h ^ (s >>> 0), 0x9E3779B1) + 0x6D2B79F5);
+    return mix32(h);
+}
+
+/**
+ * Step a seed stream whose state is stored in GameState (plain number, serializable).
+ * Returns the next sub-seed and the advanced state.
+ */
+export function nextSeed(state: number): { seed: number; state: number } {
+    const next = (state + 0x6D2B79F5) >>> 0;
+    return { seed: mix32(next), state: next };
+}
+
 export function shuffle<T>(arr: T[], rng: Rng = defaultRng): T[] {
     const a = [...arr];
     for (let i = a.length - 1; i > 0; i--) {
@@ -29,11 +71,13 @@ export function createDecks(params: {
     ranks: Rank[];          // excluding Joker (0)
     decks: number;          // 2
     jokersPerDeck: number;  // 3 (=> total 6)
+    firstDeckIndex?: number; // 1; card ids embed the deck index
 }): Card[] {
     const { suits, ranks, decks, jokersPerDeck } = params;
+    const first = params.firstDeckIndex ?? 1;
     const out: Card[] = [];
 
-    for (let d = 1; d <= decks; d++) {
+    for (let d = first; d < first + decks; d++) {
         // normal cards
         for (const suit of suits) {
             for (const rank of ranks) {
@@ -51,6 +95,40 @@ export function createDecks(params: {
     return out;
 }
 
+/** Full card set of a game: Five Crowns suits/ranks, deck and Joker counts from the RuleSet */
+export function createDecksForRules(rules: RuleSet): Card[] {
+    return createDecks({
+        suits: FiveCrownsCompat.suits,
+        ranks: FiveCrownsCompat.ranks,
+        decks: rules.decks,
+        jokersPerDeck: rules.jokersPerDeck,
+    });
+}
+
+/**
+ * One more deck for a round that ran out of cards (RuleSet.drawPileExhausted = "NEW_DECK").
+ * `deckIndex` must be above every deck in play, which keeps card ids unique.
+ */
+export function createExtraDeck(rules: RuleSet, deckIndex: number): Card[] {
+    return createDecks({
+        suits: FiveCrownsCompat.suits,
+        ranks: FiveCrownsCompat.ranks,
+        decks: 1,
+        jokersPerDeck: rules.jokersPerDeck,
+        firstDeckIndex: deckIndex,
+    });
+}
+
+/** How many cards createDecksForRules deals out, without building them */
+export function deckSizeForRules(rules: RuleSet): number {
+    return rules.decks * (FiveCrownsCompat.suits.length * FiveCrownsCompat.ranks.length + rules.jokersPerDeck);
+}
+
+/** Cards a deal needs: every hand, plus the starting discard */
+export function cardsNeeded(playerCount: number, handSize: number, startDiscard: boolean): number {
+    return playerCount * handSize + (startDiscard ? 1 : 0);
+}
+
 export function deal(
     deck: Card[],
     playerCount: number,
@@ -58,6 +136,8 @@ export function deal(
     options?: { startDiscard?: boolean }
 ): { hands: Card[][]; drawPile: Card[]; discardPile: Card[] } {
     const startDiscard = options?.startDiscard ?? true;
+    const needed = cardsNeeded(playerCount, handSize, startDiscard);
+    if (deck.length < needed) throw new Error(`Not enough cards to deal: need ${needed}, have ${deck.length}`);
 
     const hands: Card[][] = Array.from({ length: playerCount }, () => []);
     let index = 0;
@@ -0,0 +1,435 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import type { GameState } from "./state";
+import { checkNewGame, endRound, newGame } from "./state";
+import { applyAction } from "./engine";
+import { createDecksForRules, deal, deckSizeForRules, mulberry32, shuffle } from "./deck";
+import { createRuleSet } from "./rules";
+
+/**
+ * Test helpers
+ */
+const c = (suit: Suit, rank: Rank, id?: string): Card => ({
+    id: id ?? `${suit}-${rank}-${Math.random().toString(16).slice(2)}`,
+    suit,
+    rank,
+    deckIndex: 1,
+});
+
+const withHand = (state: GameState, hand: Card[]): GameState => ({
+    ...state,
+    players: state.players.map((p, i) => (i === state.currentPlayerIndex ? { ...p, hand } : p)),
+});
+
+const expectOk = (res: ReturnType<typeof applyAction>): GameState => {
+    if (!res.ok) throw new Error(`expected ok, got ${res.error.code}`);
+    return res.value;
+};
+
+describe("engine.applyAction gating", () => {
+    it("rejects discard before draw", () => {
+        const s = newGame({ seed: 1 });
+        const card = s.players[0].hand[0];
+        const res = applyAction(s, { type: "DISCARD", cardId: card.id });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("WRONG_PHASE");
+    });
+
+    it("rejects a second draw in the same turn", () => {
+        const s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" }));
+        const res = applyAction(s, { type: "TAKE_DISCARD" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("WRONG_PHASE");
+    });
+
+    it("rejects NEXT_ROUND while the round is in progress", () => {
+        const res = applyAction(newGame({ seed: 1 }), { type: "NEXT_ROUND" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("NOT_ROUND_END");
+    });
+
+    it("rejects unknown action and meld types as errors, without throwing", () => {
+        const unknown = applyAction(newGame({ seed: 1 }), { type: "FLY" } as never);
+        expect(unknown.ok).toBe(false);
+        if (!unknown.ok) expect(unknown.error.code).toBe("UNKNOWN_ACTION");
+
+        const drawn = expectOk(applyAction(newGame({ seed: 6 }), { type: "DRAW_DECK" }));
+        const s = withHand(drawn, [c("STARS", 5, "a"), c("STARS", 6, "b"), c("STARS", 7, "d"), c("CLUBS", 9, "x")]);
+        const res = applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "FOO" } as never);
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("INVALID_MELD");
+        expect(expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "RUN" })).melds[0].type).toBe("RUN");
+    });
+
+    it("does not mutate the input state", () => {
+        const s = newGame({ seed: 1 });
+        const before = JSON.stringify(s);
+        applyAction(s, { type: "DRAW_DECK" });
+        expect(JSON.stringify(s)).toBe(before);
+    });
+});
+
+describe("engine.applyAction turn flow", () => {
+    it("draw then discard passes the turn", () => {
+        let s = newGame({ seed: 1 });
+        s = expectOk(applyAction(s, { type: "DRAW_DECK" }));
+        expect(s.players[0].hand).toHaveLength(4);
+        expect(s.turnPhase).toBe("NEED_DISCARD");
+
+        s = expectOk(applyAction(s, { type: "DISCARD", cardId: s.players[0].hand[0].id }));
+        expect(s.players[0].hand).toHaveLength(3);
+        expect(s.currentPlayerIndex).toBe(1);
+        expect(s.turnPhase).toBe("NEED_DRAW");
+    });
+
+    it("MELD removes cards from hand and keeps one for discard", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" }));
+        const hand = [c("HEARTS", 5, "a"), c("CLUBS", 5, "b"), c("SPADES", 5, "d"), c("HEARTS", 9, "e")];
+        s = withHand(s, hand);
+
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "BOOK" }));
+        expect(s.melds).toHaveLength(1);
+        expect(s.melds[0].type).toBe("BOOK");
+        expect(s.players[0].hand.map((x) => x.id)).toEqual(["e"]);
+    });
+
+    it("MELD honors an explicit type when the cards form both a BOOK and a RUN", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" })); // wild=3
+        s = withHand(s, [c("HEARTS", 7, "a"), c("STARS", 0, "w1"), c("CLUBS", 3, "w2"), c("HEARTS", 9, "e")]);
+
+        const auto = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "w1", "w2"], meldType: "AUTO" }));
+        expect(auto.melds[0].type).toBe("BOOK");
+
+        const run = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "w1", "w2"], meldType: "RUN" }));
+        expect(run.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [7, 8, 9] });
+        expect(run.log[run.log.length - 1].action).toMatchObject({ meldType: "RUN" });
+
+        const res = applyAction(s, { type: "MELD", cardIds: ["a", "e", "w1"], meldType: "BOOK" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.validation?.code).toBe("MIXED_RANK");
+    });
+
+    it("MELD that would empty the hand is rejected", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" }));
+        s = withHand(s, [c("HEARTS", 5, "a"), c("CLUBS", 5, "b"), c("SPADES", 5, "d")]);
+        const res = applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "AUTO" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("MUST_KEEP_CARD");
+    });
+
+    it("LAYOFF extends an existing meld", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" }));
+        s = withHand(s, [
+            c("HEARTS", 5, "a"), c("HEARTS", 6, "b"), c("HEARTS", 7, "d"),
+            c("HEARTS", 8, "e"), c("CLUBS", 9, "f"),
+        ]);
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "AUTO" }));
+        s = expectOk(applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["e"] }));
+        expect(s.melds[0].cards).toHaveLength(4);
+        expect(s.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7, 8] });
+
+        const res = applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["missing"] });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("CARD_NOT_IN_HAND");
+    });
+
+    it("stores RUNs in rank order and keeps wilds pinned on lay off", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" })); // wild=3
+        s = withHand(s, [
+            c("HEARTS", 7, "a"), c("STARS", 0, "w"), c("HEARTS", 5, "b"),
+            c("HEARTS", 6, "d"), c("HEARTS", 4, "e"), c("CLUBS", 9, "f"),
+        ]);
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "w", "b"], meldType: "AUTO" }));
+        expect(s.melds[0].cards.map((x) => x.id)).toEqual(["b", "w", "a"]);
+        expect(s.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7] });
+
+        const res = applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["d"] });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("INVALID_MELD");
+
+        s = expectOk(applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["e"] }));
+        expect(s.melds[0].cards.map((x) => x.id)).toEqual(["e", "b", "w", "a"]);
+        expect(s.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [4, 5, 6, 7] });
+    });
+});
+
+describe("engine.applyAction dealer rotation", () => {
+    const nextRoundOf = (s: GameState) => expectOk(applyAction(endRound(s), { type: "NEXT_ROUND" }));
+
+    it("passes the deal left each round and lets the player left of the dealer start", () => {
+        let s = newGame({ seed: 3, playerNames: ["A", "B", "C"] });
+        expect(s.dealerIndex).toBe(2);
+        expect(s.currentPlayerIndex).toBe(0);
+
+        s = { ...s, currentPlayerIndex: 2 }; // wherever the round happened to end
+        s = nextRoundOf(s);
+        expect(s.dealerIndex).toBe(0);
+        expect(s.currentPlayerIndex).toBe(1);
+        expect(s.message).toContain("A deals, B starts");
+
+        s = nextRoundOf(s);
+        expect([s.dealerIndex, s.currentPlayerIndex]).toEqual([1, 2]);
+        s = nextRoundOf(s);
+        expect([s.dealerIndex, s.currentPlayerIndex]).toEqual([2, 0]);
+    });
+
+    it("deals the first card to the starting player", () => {
+        const s = nextRoundOf(newGame({ seed: 3, playerNames: ["A", "B", "C"] }));
+        const first = s.log[s.log.length - 1].seed as number;
+        const dealt = deal(shuffle(createDecksForRules(s.setup.rules), mulberry32(first)), 3, 4);
+        expect(s.players.map((p) => p.hand)).toEqual([dealt.hands[2], dealt.hands[0], dealt.hands[1]]);
+    });
+
+    it("keeps going on from the last turn when rotateDealer is off", () => {
+        const s = nextRoundOf({ ...newGame({ seed: 3, playerNames: ["A", "B", "C"], rules: { rotateDealer: false } }), currentPlayerIndex: 2 });
+        expect(s.currentPlayerIndex).toBe(2);
+        expect(s.dealerIndex).toBe(1);
+    });
+});
+
+describe("engine.applyAction seeding", () => {
+    const handIds = (s: GameState) => s.players.map((p) => p.hand.map((x) => x.id));
+
+    it("derives every round's deal from the game seed", () => {
+        const dealRound2 = (seed: string) => expectOk(applyAction(endRound(newGame({ seed })), { type: "NEXT_ROUND" }));
+
+        const a = dealRound2("tournament-7");
+        const b = dealRound2("tournament-7");
+        expect(a.round).toBe(2);
+        expect(handIds(a)).toEqual(handIds(b));
+        expect(handIds(dealRound2("tournament-8"))).not.toEqual(handIds(a));
+    });
+
+    it("recycles the discard pile deterministically and advances rngState", () => {
+        const base = newGame({ seed: 42 });
+        const empty: GameState = {
+            ...base,
+            drawPile: [],
+            discardPile: [...base.drawPile, ...base.discardPile],
+        };
+
+        const a = expectOk(applyAction(empty, { type: "DRAW_DECK" }));
+        const b = expectOk(applyAction(empty, { type: "DRAW_DECK" }));
+        expect(a.drawPile.map((x) => x.id)).toEqual(b.drawPile.map((x) => x.id));
+        expect(a.discardPile).toHaveLength(1);
+        expect(a.rngState).not.toBe(empty.rngState);
+        expect(typeof a.log[a.log.length - 1].seed).toBe("number");
+    });
+
+    describe("drawPileExhausted", () => {
+        // 7 players in round 11 leave only a few cards; here the draw pile is gone and only the top discard is left
+        const exhausted = (drawPileExhausted: "NEW_DECK" | "END_ROUND"): GameState => {
+            const base = newGame({ seed: 42, rules: { drawPileExhausted } });
+            return { ...base, drawPile: [] };
+        };
+
+        it("NEW_DECK shuffles in another deck with fresh card ids, reproducibly", () => {
+            const empty = exhausted("NEW_DECK");
+            expect(empty.discardPile).toHaveLength(1);
+
+            const a = expectOk(applyAction(empty, { type: "DRAW_DECK" }));
+            const b = expectOk(applyAction(empty, { type: "DRAW_DECK" }));
+            expect(a.drawPile.map((x) => x.id)).toEqual(b.drawPile.map((x) => x.id));
+            expect(a.drawPile).toHaveLength(55 + 3 - 1);
+            expect(a.players[0].hand).toHaveLength(4);
+            expect(a.discardPile).toEqual(empty.discardPile);
+            expect(a.message).toMatch(/fresh deck/);
+            expect(typeof a.log[0].seed).toBe("number");
+
+            const all = [...a.drawPile, ...a.discardPile, ...a.players.flatMap((p) => p.hand)];
+            expect(new Set(all.map((x) => x.id)).size).toBe(all.length);
+            expect(a.players[0].hand[3].deckIndex).toBe(3);
+        });
+
+        it("END_ROUND ends the round with nobody out and scores every hand", () => {
+            const empty = exhausted("END_ROUND");
+            const s = expectOk(applyAction(empty, { type: "DRAW_DECK" }));
+
+            expect(s.status).toBe("ROUND_END");
+            expect(s.message).toMatch(/draw pile ran out/);
+            expect(s.roundResults).toHaveLength(1);
+            expect(s.roundResults[0].outPlayerId).toBeUndefined();
+            expect(s.players.every((p) => p.score > 0)).toBe(true);
+            expect(s.log[0].action).toEqual({ type: "DRAW_DECK" });
+
+            const next = expectOk(applyAction(s, { type: "NEXT_ROUND" }));
+            expect(next.round).toBe(2);
+        });
+    });
+});
+
+describe("engine.applyAction undo/redo", () => {
+    const setup = () => {
+        let s = expectOk(applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" }));
+        s = withHand(s, [
+            c("HEARTS", 5, "a"), c("HEARTS", 6, "b"), c("HEARTS", 7, "d"),
+            c("HEARTS", 8, "e"), c("CLUBS", 9, "f"),
+        ]);
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "AUTO" }));
+        return expectOk(applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["e"] }));
+    };
+    const handIds = (s: GameState) => s.players[s.currentPlayerIndex].hand.map((x) => x.id);
+
+    it("takes back a lay off, then a meld, and redoes them in order", () => {
+        let s = setup();
+        expect(handIds(s)).toEqual(["f"]);
+
+        s = expectOk(applyAction(s, { type: "UNDO" }));
+        expect(handIds(s)).toEqual(["e", "f"]);
+        expect(s.melds[0].cards).toHaveLength(3);
+
+        s = expectOk(applyAction(s, { type: "UNDO" }));
+        expect(handIds(s)).toEqual(["a", "b", "d", "e", "f"]);
+        expect(s.melds).toEqual([]);
+
+        const res = applyAction(s, { type: "UNDO" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("NOTHING_TO_UNDO");
+
+        s = expectOk(applyAction(s, { type: "REDO" }));
+        s = expectOk(applyAction(s, { type: "REDO" }));
+        expect(handIds(s)).toEqual(["f"]);
+        expect(s.melds[0].cards).toHaveLength(4);
+    });
+
+    it("a new meld discards the redo stack", () => {
+        let s = expectOk(applyAction(setup(), { type: "UNDO" }));
+        expect(s.history.redo).toHaveLength(1);
+        s = expectOk(applyAction(s, { type: "LAYOFF", meldId: s.melds[0].id, cardIds: ["e"] }));
+        expect(s.history.redo).toEqual([]);
+    });
+
+    it("clears the history once the discard commits", () => {
+        let s = expectOk(applyAction(setup(), { type: "DISCARD", cardId: "f" }));
+        expect(s.history).toEqual({ undo: [], redo: [] });
+
+        s = expectOk(applyAction(s, { type: "DRAW_DECK" }));
+        const res = applyAction(s, { type: "UNDO" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("NOTHING_TO_UNDO");
+    });
+
+    it("is rejected before the draw", () => {
+        const res = applyAction(newGame({ seed: 1 }), { type: "UNDO" });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("WRONG_PHASE");
+    });
+});
+
+describe("engine.applyAction house rules", () => {
+    const fourCards = () => [c("HEARTS", 5, "a"), c("CLUBS", 5, "b"), c("SPADES", 5, "d"), c("STARS", 5, "e")];
+
+    it("goOutRequiresDiscard: false lets a meld of the whole hand go out", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1, rules: { goOutRequiresDiscard: false } }), { type: "DRAW_DECK" }));
+        s = withHand(s, fourCards());
+
+        expect(s.turnsPlayed).toBe(0);
+
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d", "e"], meldType: "AUTO" }));
+        expect(s.outTriggeredByPlayerId).toBe("P1");
+        expect(s.currentPlayerIndex).toBe(1);
+        expect(s.turnPhase).toBe("NEED_DRAW");
+        expect(s.history).toEqual({ undo: [], redo: [] });
+        // the turn ended without a discard: still a completed turn (pass-the-device screen, spectator delay)
+        expect(s.turnsPlayed).toBe(1);
+        expect(s.log.some((e) => e.action.type === "DISCARD")).toBe(false);
+    });
+
+    it("allowLayoffBeforeFirstMeld: false requires a meld of your own first", () => {
+        let s = expectOk(applyAction(newGame({ seed: 1, rules: { allowLayoffBeforeFirstMeld: false } }), { type: "DRAW_DECK" }));
+        s = withHand(s, [...fourCards(), c("CLUBS", 9, "f")]);
+        const meld = {
+            id: "R1-P2-1", playerId: "P2", type: "BOOK" as const,
+            cards: [c("HEARTS", 9), c("SPADES", 9), c("STARS", 9)],
+            assignment: { type: "BOOK" as const, rank: 9 as Rank }, round: 1,
+        };
+        s = { ...s, melds: [meld] };
+
+        const res = applyAction(s, { type: "LAYOFF", meldId: meld.id, cardIds: ["f"] });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("MELD_FIRST");
+
+        s = expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "b", "d"], meldType: "AUTO" }));
+        s = expectOk(applyAction(s, { type: "LAYOFF", meldId: meld.id, cardIds: ["f"] }));
+        expect(s.melds[0].cards).toHaveLength(4);
+    });
+
+    it("deals from the RuleSet's decks and rejects tables the decks cannot serve", () => {
+        const s = newGame({ seed: 1, rules: { decks: 3, jokersPerDeck: 2 } });
+        const total = s.drawPile.length + s.discardPile.length + s.players.reduce((n, p) => n + p.hand.length, 0);
+        expect(total).toBe(3 * (55 + 2));
+
+        const seats = Array.from({ length: 5 }, (_, i) => ({ name: `P${i + 1}` }));
+        expect(() => newGame({ seats, rules: { decks: 1 } })).toThrow(/Not enough cards/);
+    });
+
+    it("checks player count, house rules and deck size before dealing (checkNewGame)", () => {
+        const seats = (n: number) => Array.from({ length: n }, (_, i) => ({ name: `P${i + 1}` }));
+        expect(checkNewGame({ seats: seats(7) })).toBeNull();
+        expect(checkNewGame({ seats: seats(1) })).toMatch(/at least 2/);
+        expect(checkNewGame({ seats: seats(8) })).toMatch(/At most 7/);
+        expect(checkNewGame({ rules: { decks: 0 } })).toMatch(/Invalid decks/);
+
+        // one deck without Jokers: 55 cards; round 11 deals 13 each
+        expect(checkNewGame({ seats: seats(4), rules: { decks: 1, jokersPerDeck: 0 } })).toBeNull();
+        expect(checkNewGame({ seats: seats(5), rules: { decks: 1, jokersPerDeck: 0 } })).toMatch(/Not enough cards for 5 players: need 66/);
+        expect(() => newGame({ seats: seats(8) })).toThrow(/At most 7/);
+    });
+
+    it("caps decks and Jokers, and counts the cards without building them", () => {
+        expect(checkNewGame({ rules: { decks: 1_000_000_000 } })).toMatch(/Invalid decks.*1–4/);
+        expect(checkNewGame({ rules: { jokersPerDeck: 1_000_000_000 } })).toMatch(/Invalid jokersPerDeck.*0–6/);
+        for (const options of [{}, { decks: 1, jokersPerDeck: 0 }, { decks: 4, jokersPerDeck: 6 }]) {
+            const rules = createRuleSet(options);
+            expect(deckSizeForRules(rules)).toBe(createDecksForRules(rules).length);
+        }
+    });
+
+    describe("allowWildSwap", () => {
+        const setupSwap = (allowWildSwap: boolean) => {
+            let s = expectOk(applyAction(newGame({ seed: 1, rules: { allowWildSwap } }), { type: "DRAW_DECK" })); // wild=3
+            s = withHand(s, [
+                c("HEARTS", 5, "a"), c("STARS", 0, "w"), c("HEARTS", 7, "b"),
+                c("HEARTS", 6, "six"), c("CLUBS", 6, "c6"), c("CLUBS", 9, "f"),
+            ]);
+            return expectOk(applyAction(s, { type: "MELD", cardIds: ["a", "w", "b"], meldType: "AUTO" }));
+        };
+        const swap = (s: GameState, cardId: string) =>
+            applyAction(s, { type: "SWAP_WILD", meldId: s.melds[0].id, cardId, wildCardId: "w" });
+
+        it("is rejected unless the RuleSet allows it", () => {
+            const res = swap(setupSwap(false), "six");
+            expect(res.ok).toBe(false);
+            if (!res.ok) expect(res.error.code).toBe("SWAP_DISABLED");
+        });
+
+        it("puts the natural into the meld and the wild into the hand, logged and undoable", () => {
+            const before = setupSwap(true);
+            const s = expectOk(swap(before, "six"));
+            expect(s.melds[0].cards.map((x) => x.id)).toEqual(["a", "six", "b"]);
+            expect(s.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7] });
+            expect(s.players[0].hand.map((x) => x.id)).toEqual(["w", "c6", "f"]);
+            expect(s.log[s.log.length - 1].action.type).toBe("SWAP_WILD");
+
+            const undone = expectOk(applyAction(s, { type: "UNDO" }));
+            expect(undone.melds).toEqual(before.melds);
+        });
+
+        it("requires the exact card the wild stands for", () => {
+            const res = swap(setupSwap(true), "c6");
+            expect(res.ok).toBe(false);
+            if (!res.ok) {
+                expect(res.error.code).toBe("INVALID_MELD");
+                expect(res.error.validation?.code).toBe("MIXED_SUIT");
+                expect(res.error.validation?.cardIds).toEqual(["c6"]);
+            }
+        });
+
+        it("rejects a wild that is not in the meld", () => {
+            const s = setupSwap(true);
+            const res = applyAction(s, { type: "SWAP_WILD", meldId: s.melds[0].id, cardId: "six", wildCardId: "nope" });
+            expect(res.ok).toBe(false);
+            if (!res.ok) expect(res.error.code).toBe("CARD_NOT_IN_MELD");
+        });
+    });
+});
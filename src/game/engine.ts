@@ -0,0 +1,525 @@
+// src/game/engine.ts
+import type { Card, MeldType, Suit } from "./types";
+import type { GameState, Meld, PlayerState, TurnSnapshot } from "./state";
+import { FiveCrownsCompat } from "./rules";
+import {
+    mulberry32,
+    nextSeed,
+    shuffle,
+    createExtraDeck,
+    drawOne,
+    discardOne,
+    takeDiscardTop,
+    recycleDiscardIntoDraw,
+} from "./deck";
+import type { GameEvent } from "./state";
+import { afterDiscard, endRound, nextRound, roundSeed } from "./state";
+import type { ValidationError } from "./validator";
+import { resolveMeld, resolveWildSwap } from "./validator";
+
+export type Result<T, E> = { ok: true; value: T } | { ok: false; error: E };
+
+export type SortOrder = "RANK" | "SUIT";
+
+/**
+ * Every state transition the game supports.
+ * Card-carrying actions reference cards by id so bots / network peers can build them
+ * without sharing object identity.
+ */
+export type GameAction =
+    | { type: "DRAW_DECK" }
+    | { type: "TAKE_DISCARD" }
+    | { type: "MELD"; cardIds: string[]; meldType: MeldType | "AUTO" }
+    | { type: "LAYOFF"; meldId: string; cardIds: string[] }
+    | { type: "SWAP_WILD"; meldId: string; cardId: string; wildCardId: string }
+    | { type: "DISCARD"; cardId: string }
+    | { type: "NEXT_ROUND" }
+    | { type: "SORT"; by: SortOrder }
+    | { type: "SELECT"; cardIds: string[] }
+    | { type: "UNDO" }
+    | { type: "REDO" };
+
+export type ActionErrorCode =
+    | "NOT_PLAYING"
+    | "NOT_ROUND_END"
+    | "WRONG_PHASE"
+    | "EMPTY_PILE"
+    | "NO_CARDS"
+    | "CARD_NOT_IN_HAND"
+    | "INVALID_MELD"
+    | "MELD_NOT_FOUND"
+    | "CARD_NOT_IN_MELD"
+    | "MUST_KEEP_CARD"
+    | "MELD_FIRST"
+    | "SWAP_DISABLED"
+    | "NOTHING_TO_UNDO"
+    | "NOTHING_TO_REDO"
+    | "UNKNOWN_ACTION";
+
+/** `validation` details INVALID_MELD: the rule that failed and the cards that broke it */
+export type ActionError = { code: ActionErrorCode; message: string; validation?: ValidationError };
+
+export type ApplyOptions = {
+    /**
+     * Use this shuffle seed instead of deriving it from the game seed.
+     * Replays pass the seed recorded on the event, so logs from older saves still reproduce.
+     */
+    seed?: number;
+};
+
+/** Reducer output before logging: the next state, plus the shuffle seed if one was used */
+type Step = { state: GameState; seed?: number };
+
+function fail(code: ActionErrorCode, message: string): Result<never, ActionError> {
+    return { ok: false, error: { code, message } };
+}
+
+function invalidMeld(prefix: string, error: ValidationError): Result<never, ActionError> {
+    const { code, reason, cardIds, params } = error;
+    const validation: ValidationError = { code, reason, cardIds, ...(params ? { params } : {}) };
+    return { ok: false, error: { code: "INVALID_MELD", message: `${prefix}: ${reason}`, validation } };
+}
+
+function done(state: GameState, seed?: number): Result<Step, ActionError> {
+    return { ok: true, value: seed === undefined ? { state } : { state, seed } };
+}
+
+function suitOrderIndex(suit: Suit): number {
+    return FiveCrownsCompat.suits.indexOf(suit);
+}
+
+export function sortByRankThenSuit(hand: Card[]): Card[] {
+    return [...hand].sort((a, b) => {
+        if (a.rank !== b.rank) return (a.rank as number) - (b.rank as number);
+        return suitOrderIndex(a.suit) - suitOrderIndex(b.suit);
+    });
+}
+
+export function sortBySuitThenRank(hand: Card[]): Card[] {
+    return [...hand].sort((a, b) => {
+        const sa = suitOrderIndex(a.suit);
+        const sb = suitOrderIndex(b.suit);
+        if (sa !== sb) return sa - sb;
+        return (a.rank as number) - (b.rank as number);
+    });
+}
+
+function withCurrentHand(state: GameState, hand: Card[]): PlayerState[] {
+    return state.players.map((p, idx) => (idx === state.currentPlayerIndex ? { ...p, hand } : p));
+}
+
+function snapshotTurn(state: GameState): TurnSnapshot {
+    return { hand: state.players[state.currentPlayerIndex].hand, melds: state.melds };
+}
+
+/** Record the pre-action snapshot; a new action invalidates anything that was undone */
+function pushUndo(state: GameState): GameState["history"] {
+    return { undo: [...state.history.undo, snapshotTurn(state)], redo: [] };
+}
+
+/** Cards the player must still hold after a meld / lay off (1 = go out on discard only) */
+function cardsToKeep(state: GameState): number {
+    return state.rule.ruleSet.goOutRequiresDiscard ? 1 : 0;
+}
+
+/** RuleSet.allowLayoffBeforeFirstMeld: otherwise the player needs a meld of their own this round */
+export function canLayOff(state: Pick<GameState, "rule" | "melds">, playerId: string): boolean {
+    if (state.rule.ruleSet.allowLayoffBeforeFirstMeld) return true;
+    return state.melds.some((m) => m.playerId === playerId);
+}
+
+/**
+ * Resolve ids against the current player's hand.
+ * Returns null if any id is missing or repeated.
+ */
+function pickFromHand(hand: Card[], cardIds: string[]): Card[] | null {
+    if (new Set(cardIds).size !== cardIds.length) return null;
+    const handMap = new Map(hand.map((c) => [c.id, c]));
+    const cards: Card[] = [];
+    for (const id of cardIds) {
+        const card = handMap.get(id);
+        if (!card) return null;
+        cards.push(card);
+    }
+    return cards;
+}
+
+/**
+ * Pure game reducer: applies one action to the state.
+ * All phase/status gating lives here, so the UI, bots and replays share the same rules.
+ * Every successful action except SELECT is appended to state.log.
+ */
+export function applyAction(
+    state: GameState,
+    action: GameAction,
+    options?: ApplyOptions
+): Result<GameState, ActionError> {
+    const result = reduce(state, action, options?.seed);
+    if (!result.ok) return result;
+    if (action.type === "SELECT") return { ok: true, value: result.value.state };
+
+    const event: GameEvent = {
+        seq: state.log.length,
+        round: state.round,
+        playerId: state.players[state.currentPlayerIndex].id,
+        action,
+        ...(result.value.seed === undefined ? {} : { seed: result.value.seed }),
+    };
+    const next = result.value.state;
+    return { ok: true, value: { ...next, log: [...next.log, event] } };
+}
+
+function reduce(state: GameState, action: GameAction, seedOverride?: number): Result<Step, ActionError> {
+    switch (action.type) {
+        case "SELECT":
+            return applySelect(state, action.cardIds);
+        case "SORT":
+            return applySort(state, action.by);
+        case "DRAW_DECK":
+            return applyDrawDeck(state, seedOverride);
+        case "TAKE_DISCARD":
+            return applyTakeDiscard(state);
+        case "MELD":
+            return applyMeld(state, action.cardIds, action.meldType);
+        case "LAYOFF":
+            return applyLayoff(state, action.meldId, action.cardIds);
+        case "SWAP_WILD":
+            return applySwapWild(state, action.meldId, action.cardId, action.wildCardId);
+        case "DISCARD":
+            return applyDiscard(state, action.cardId);
+        case "NEXT_ROUND":
+            return applyNextRound(state, seedOverride ?? roundSeed(state.setup.seed, state.round + 1));
+        case "UNDO":
+            return applyUndo(state);
+        case "REDO":
+            return applyRedo(state);
+        default:
+            // actions arrive from clients and bots as JSON: an unknown type is an error, not a crash
+            return fail("UNKNOWN_ACTION", `Unknown action: ${String((action as { type: unknown }).type)}`);
+    }
+}
+
+function requirePhase(state: GameState, phase: GameState["turnPhase"]): Result<never, ActionError> | null {
+    if (state.status !== "PLAYING") return fail("NOT_PLAYING", "The round is not in progress.");
+    if (state.turnPhase !== phase) {
+        return fail(
+            "WRONG_PHASE",
+            phase === "NEED_DRAW" ? "You have already drawn this turn." : "Draw 1 card first."
+        );
+    }
+    return null;
+}
+
+function applySelect(state: GameState, cardIds: string[]): Result<Step, ActionError> {
+    if (state.status !== "PLAYING") return fail("NOT_PLAYING", "The round is not in progress.");
+    const me = state.players[state.currentPlayerIndex];
+    const inHand = new Set(me.hand.map((c) => c.id));
+    return done({ ...state, selectedCardIds: cardIds.filter((id) => inHand.has(id)) });
+}
+
+function applySort(state: GameState, by: SortOrder): Result<Step, ActionError> {
+    if (state.status !== "PLAYING") return fail("NOT_PLAYING", "The round is not in progress.");
+    const me = state.players[state.currentPlayerIndex];
+    const hand = by === "RANK" ? sortByRankThenSuit(me.hand) : sortBySuitThenRank(me.hand);
+    return done({
+        ...state,
+        players: withCurrentHand(state, hand),
+        message: by === "RANK" ? "Sorted hand: Rank → Suit" : "Sorted hand: Suit → Rank",
+    });
+}
+
+function applyDrawDeck(state: GameState, seedOverride?: number): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DRAW");
+    if (gate) return gate;
+
+    let { drawPile, discardPile, rngState } = state;
+    let seed: number | undefined;
+    let refilled = "";
+    if (drawPile.length === 0) {
+        // nothing under the top discard to recycle: the house rule decides
+        const exhausted = discardPile.length <= 1;
+        if (exhausted && state.rule.ruleSet.drawPileExhausted === "END_ROUND") {
+            const ended = endRound(state);
+            return done({ ...ended, message: `The draw pile ran out, so the round ends here. ${ended.message}` });
+        }
+        const stream = nextSeed(rngState);
+        seed = seedOverride ?? stream.seed;
+        rngState = stream.state;
+        if (exhausted) {
+            drawPile = shuffle(createExtraDeck(state.rule.ruleSet, nextDeckIndex(state)), mulberry32(seed));
+            refilled = "The draw pile ran out: a fresh deck was shuffled in. ";
+        } else {
+            const recycled = recycleDiscardIntoDraw(drawPile, discardPile, mulberry32(seed));
+            drawPile = recycled.drawPile;
+            discardPile = recycled.discardPile;
+        }
+    }
+    if (drawPile.length === 0) return fail("EMPTY_PILE", "Draw pile is empty.");
+
+    const res = drawOne(drawPile);
+    const me = state.players[state.currentPlayerIndex];
+
+    return done({
+        ...state,
+        players: withCurrentHand(state, [...me.hand, res.card]),
+        drawPile: res.drawPile,
+        discardPile,
+        rngState,
+        turnPhase: "NEED_DISCARD",
+        message: `${refilled}${me.name} drew a card. Now discard 1 card.`,
+    }, seed);
+}
+
+/** Deck index for an extra deck: above every deck whose cards are in play this round */
+function nextDeckIndex(state: GameState): number {
+    const inPlay = [
+        ...state.drawPile,
+        ...state.discardPile,
+        ...state.players.flatMap((p) => p.hand),
+        ...state.melds.flatMap((m) => m.cards),
+    ];
+    return Math.max(state.rule.ruleSet.decks, ...inPlay.map((c) => c.deckIndex)) + 1;
+}
+
+function applyTakeDiscard(state: GameState): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DRAW");
+    if (gate) return gate;
+    if (state.discardPile.length === 0) return fail("EMPTY_PILE", "Discard pile is empty.");
+
+    const res = takeDiscardTop(state.discardPile);
+    const me = state.players[state.currentPlayerIndex];
+
+    return done({
+        ...state,
+        players: withCurrentHand(state, [...me.hand, res.card]),
+        discardPile: res.discardPile,
+        turnPhase: "NEED_DISCARD",
+        message: `${me.name} took the top discard. Now discard 1 card.`,
+    });
+}
+
+/**
+ * Lay down a new meld of the given type. The type decides which lay offs fit later
+ * (e.g. 7♥ + two wilds is both a BOOK of 7s and a RUN), so "AUTO" is only a convenience:
+ * it tries BOOK first, then RUN.
+ */
+function applyMeld(state: GameState, cardIds: string[], meldType: MeldType | "AUTO"): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+
+    if (meldType !== "AUTO" && meldType !== "BOOK" && meldType !== "RUN") {
+        return fail("INVALID_MELD", `Unknown meld type: ${String(meldType)}`);
+    }
+    const me = state.players[state.currentPlayerIndex];
+    if (cardIds.length === 0) return fail("NO_CARDS", "Select cards first.");
+    const cards = pickFromHand(me.hand, cardIds);
+    if (!cards) return fail("CARD_NOT_IN_HAND", "Selected cards not found in hand.");
+
+    let type: MeldType = meldType === "AUTO" ? "BOOK" : meldType;
+    let result = resolveMeld(cards, type, state.rule);
+    if (!result.ok && meldType === "AUTO") {
+        type = "RUN";
+        result = resolveMeld(cards, type, state.rule);
+    }
+    if (!result.ok) return invalidMeld("Invalid meld", result);
+
+    const remove = new Set(cardIds);
+    const newHand = me.hand.filter((c) => !remove.has(c.id));
+
+    // Must keep at least 1 card for discard (unless the RuleSet lets a meld go out)
+    if (newHand.length < cardsToKeep(state)) {
+        return fail("MUST_KEEP_CARD", "Must keep 1 card to discard. (Go out happens on discard.)");
+    }
+
+    const meld: Meld = {
+        id: `R${state.round}-${me.id}-${state.melds.length + 1}`,
+        playerId: me.id,
+        type,
+        cards: result.cards,
+        assignment: result.assignment,
+        round: state.round,
+    };
+
+    const next: GameState = {
+        ...state,
+        players: withCurrentHand(state, newHand),
+        melds: [...state.melds, meld],
+        selectedCardIds: [],
+        history: pushUndo(state),
+        message: `${me.name} submitted a ${type} (${cards.length}). Now discard 1 card.`,
+    };
+    return done(newHand.length === 0 ? goOutWithoutDiscard(next, me) : next);
+}
+
+function applyLayoff(state: GameState, meldId: string, cardIds: string[]): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+
+    const me = state.players[state.currentPlayerIndex];
+    if (cardIds.length === 0) return fail("NO_CARDS", "Select cards to lay off first.");
+    const addedCards = pickFromHand(me.hand, cardIds);
+    if (!addedCards) return fail("CARD_NOT_IN_HAND", "Selected cards not found in hand.");
+
+    if (!canLayOff(state, me.id)) return fail("MELD_FIRST", "Lay down a meld of your own before laying off.");
+
+    // Must keep at least 1 card for discard (unless the RuleSet lets a lay off go out)
+    if (me.hand.length - addedCards.length < cardsToKeep(state)) {
+        return fail("MUST_KEEP_CARD", "Must keep 1 card to discard. (Go out happens on discard.)");
+    }
+
+    const target = state.melds.find((m) => m.id === meldId);
+    if (!target) return fail("MELD_NOT_FOUND", "Target meld not found.");
+
+    // Cards already on the table keep what they stand for; the added cards fill free positions
+    const result = resolveMeld([...target.cards, ...addedCards], target.type, state.rule, target);
+    if (!result.ok) return invalidMeld("Lay off failed", result);
+
+    const remove = new Set(cardIds);
+    const newHand = me.hand.filter((c) => !remove.has(c.id));
+    const melds = state.melds.map((m) =>
+        m.id === meldId ? { ...m, cards: result.cards, assignment: result.assignment } : m
+    );
+
+    const next: GameState = {
+        ...state,
+        players: withCurrentHand(state, newHand),
+        melds,
+        selectedCardIds: [],
+        history: pushUndo(state),
+        message: `Laid off ${addedCards.length} card(s) onto ${target.type}. Now discard 1 card.`,
+    };
+    return done(newHand.length === 0 ? goOutWithoutDiscard(next, me) : next);
+}
+
+/**
+ * RuleSet.allowWildSwap: put the natural card a wild stands for into the meld and take the wild.
+ * The hand size does not change, so no card-keeping check is needed. Undoable like a lay off.
+ */
+function applySwapWild(state: GameState, meldId: string, cardId: string, wildCardId: string): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+    if (!state.rule.ruleSet.allowWildSwap) return fail("SWAP_DISABLED", "Wild swaps are not allowed in this game.");
+
+    const me = state.players[state.currentPlayerIndex];
+    const card = me.hand.find((c) => c.id === cardId);
+    if (!card) return fail("CARD_NOT_IN_HAND", "Selected card not found in hand.");
+
+    if (!canLayOff(state, me.id)) return fail("MELD_FIRST", "Lay down a meld of your own before swapping.");
+
+    const target = state.melds.find((m) => m.id === meldId);
+    if (!target) return fail("MELD_NOT_FOUND", "Target meld not found.");
+    const wild = target.cards.find((c) => c.id === wildCardId);
+    if (!wild) return fail("CARD_NOT_IN_MELD", "That wild card is not in the meld.");
+
+    const result = resolveWildSwap({
+        meldType: target.type,
+        meldCards: target.cards,
+        assignment: target.assignment,
+        wildCardId,
+        card,
+        rule: state.rule,
+    });
+    if (!result.ok) return invalidMeld("Swap failed", result);
+
+    const newHand = me.hand.map((c) => (c.id === cardId ? wild : c));
+    const melds = state.melds.map((m) =>
+        m.id === meldId ? { ...m, cards: result.cards, assignment: result.assignment } : m
+    );
+
+    return done({
+        ...state,
+        players: withCurrentHand(state, newHand),
+        melds,
+        selectedCardIds: [],
+        history: pushUndo(state),
+        message: `${me.name} swapped a natural card for a wild on the table. Now discard 1 card.`,
+    });
+}
+
+function applyDiscard(state: GameState, cardId: string): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+
+    const me = state.players[state.currentPlayerIndex];
+    const card = me.hand.find((c) => c.id === cardId);
+    if (!card) return fail("CARD_NOT_IN_HAND", "Card not found.");
+
+    const newHand = me.hand.filter((c) => c.id !== cardId);
+    const base: GameState = {
+        ...state,
+        players: withCurrentHand(state, newHand),
+        discardPile: discardOne(state.discardPile, card),
+        selectedCardIds: [],
+        message: undefined,
+    };
+    return done(finishTurn(base, me, `${me.name} discarded 1 card.`));
+}
+
+/**
+ * End the current player's turn (the hand is already updated): out / final-turn bookkeeping,
+ * then the next player. Undo history never survives the turn.
+ */
+function finishTurn(base: GameState, me: PlayerState, summary: string): GameState {
+    const result = afterDiscard(
+        { ...base, history: { undo: [], redo: [] }, turnsPlayed: base.turnsPlayed + 1 },
+        me.id,
+        base.players[base.currentPlayerIndex].hand.length
+    );
+
+    // メッセージ補完
+    if (!result.message) {
+        const nextPlayer = result.players[result.currentPlayerIndex];
+        return { ...result, message: `${summary} Next: ${nextPlayer.name} (Draw 1).` };
+    }
+    return result;
+}
+
+/** RuleSet.goOutRequiresDiscard === false: melding / laying off the last card ends the turn and goes out */
+function goOutWithoutDiscard(state: GameState, me: PlayerState): GameState {
+    return finishTurn({ ...state, message: undefined }, me, `${me.name} went out.`);
+}
+
+/**
+ * Undo the last MELD / LAYOFF / SWAP_WILD of this turn: the hand and table go back to the snapshot,
+ * and the current position moves to the redo stack.
+ */
+function applyUndo(state: GameState): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+
+    const { undo, redo } = state.history;
+    const snapshot = undo[undo.length - 1];
+    if (!snapshot) return fail("NOTHING_TO_UNDO", "Nothing to undo this turn.");
+
+    return done({
+        ...state,
+        players: withCurrentHand(state, snapshot.hand),
+        melds: snapshot.melds,
+        selectedCardIds: [],
+        history: { undo: undo.slice(0, -1), redo: [...redo, snapshotTurn(state)] },
+        message: "Undid the last meld / lay off.",
+    });
+}
+
+function applyRedo(state: GameState): Result<Step, ActionError> {
+    const gate = requirePhase(state, "NEED_DISCARD");
+    if (gate) return gate;
+
+    const { undo, redo } = state.history;
+    const snapshot = redo[redo.length - 1];
+    if (!snapshot) return fail("NOTHING_TO_REDO", "Nothing to redo.");
+
+    return done({
+        ...state,
+        players: withCurrentHand(state, snapshot.hand),
+        melds: snapshot.melds,
+        selectedCardIds: [],
+        history: { undo: [...undo, snapshotTurn(state)], redo: redo.slice(0, -1) },
+        message: "Redid the meld / lay off.",
+    });
+}
+
+function applyNextRound(state: GameState, seed: number): Result<Step, ActionError> {
+    if (state.status !== "ROUND_END") return fail("NOT_ROUND_END", "The round has not ended yet.");
+    return done(nextRound(state, { seed }), seed);
+}
@@ -1,23 +1,35 @@
 // src/game/index.ts
 // Barrel export for game module
 
-export type { Suit, Rank, Card, MeldType, RoundRule } from "./types";
+export type { Suit, Rank, Card, MeldType, MeldAssignment, RoundRule, ScoringConfig, DrawPileExhaustion, RuleSet } from "./types";
 
+export type { RuleSetOptions } from "./rules";
 export {
     FiveCrownsCompat,
+    DEFAULT_RULESET,
+    MAX_DECKS,
+    MAX_JOKERS_PER_DECK,
+    createRuleSet,
     getRoundRule,
     isJoker,
     isWildRank,
     rankLabel,
-    scoreHand,
 } from "./rules";
 
 export type { Rng } from "./deck";
 export {
     defaultRng,
     mulberry32,
+    randomSeed,
+    seedFromString,
+    deriveSeed,
+    nextSeed,
     shuffle,
     createDecks,
+    createDecksForRules,
+    deckSizeForRules,
+    createExtraDeck,
+    cardsNeeded,
     deal,
     drawOne,
     takeDiscardTop,
@@ -25,14 +37,109 @@ export {
     recycleDiscardIntoDraw,
 } from "./deck";
 
-export type { ValidationResult } from "./validator";
-export { validateMeld } from "./validator";
+export type {
+    PenaltyKind,
+    CardPenalty,
+    RoundScore,
+    RoundResult,
+    GameScore,
+} from "./scoring";
+export {
+    penaltyKind,
+    rankPenalty,
+    scoreHand,
+    scoreCards,
+    createRoundResult,
+    calculateHandScore,
+    calculateRoundScores,
+    createGameScore,
+    addRoundScore,
+    determineGameWinners,
+    formatScore,
+    getRankings,
+} from "./scoring";
 
-export type { PlayerState, Meld, TurnPhase, GameState, NewGameOptions } from "./state";
+export type {
+    ValidationResult,
+    ValidationError,
+    ValidationErrorCode,
+    ValidationParams,
+    RunSlot,
+    RunResolution,
+    ResolvedMeld,
+    MeldResolution,
+} from "./validator";
 export {
+    VALIDATION_MESSAGES,
+    validateMeld,
+    validateLayoff,
+    resolveRun,
+    resolveMeld,
+    resolveWildSwap,
+    assignedRank,
+} from "./validator";
+
+export type {
+    PlayerKind,
+    BotLevel,
+    PlayerState,
+    Meld,
+    TurnPhase,
+    TurnSnapshot,
+    TurnHistory,
+    GameState,
+    SeatConfig,
+    NewGameOptions,
+    GameSetup,
+    GameEvent,
+} from "./state";
+export {
+    MIN_PLAYERS,
+    MAX_PLAYERS,
+    checkNewGame,
     newGame,
     endRound,
     nextRound,
     triggerOutIfNeeded,
     consumeOutTurnIfNeeded,
+    afterDiscard,
+    leaderIndex,
+    roundSeed,
+    recycleSeedState,
 } from "./state";
+
+export type {
+    Result,
+    SortOrder,
+    GameAction,
+    ActionErrorCode,
+    ActionError,
+    ApplyOptions,
+} from "./engine";
+export { applyAction, sortByRankThenSuit, sortBySuitThenRank } from "./engine";
+
+export type { TurnAction } from "./legal";
+export { isTurnAction, legalActions } from "./legal";
+
+export type { SeatView, TableView, PlayerView, SpectatorOptions, SpectatorView } from "./view";
+export { DEFAULT_SPECTATOR_OPTIONS, viewFor, spectatorView } from "./view";
+
+export { chooseBotAction, findMelds, evaluateHand } from "./bot";
+
+export type { MeldCandidate, HandSolution, DiscardOption } from "./solver";
+export { MAX_SOLVER_CARDS, solveHand, solveDiscardOptions } from "./solver";
+
+export type { SaveFile, SaveErrorCode, SaveError, SaveMigration } from "./save";
+export {
+    SAVE_VERSION,
+    SAVE_STORAGE_KEY,
+    saveMigrations,
+    serializeGame,
+    deserializeGame,
+    saveToStorage,
+    loadFromStorage,
+    clearStorage,
+} from "./save";
+
+export type { ReplayFrame, ReplayError } from "./replay";
+export { replayEvents, replayGame } from "./replay";
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import type { GameState } from "./state";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+import { legalActions } from "./legal";
+
+const c = (suit: Suit, rank: Rank): Card => ({ id: `${suit}-${rank}`, suit, rank, deckIndex: 1 });
+
+/** Round 1 (3s wild) after the first player drew, holding `hand` */
+const drawnWith = (hand: Card[]): GameState => {
+    const res = applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" });
+    if (!res.ok) throw new Error(res.error.message);
+    const s = res.value;
+    return { ...s, players: s.players.map((p, i) => (i === s.currentPlayerIndex ? { ...p, hand } : p)) };
+};
+
+describe("legal.legalActions", () => {
+    it("offers both piles before the draw", () => {
+        expect(legalActions(newGame({ seed: 1 }))).toEqual([{ type: "DRAW_DECK" }, { type: "TAKE_DISCARD" }]);
+    });
+
+    it("lists melds of the hand and every discard after the draw", () => {
+        const s = drawnWith([c("HEARTS", 5), c("SPADES", 5), c("CLUBS", 5), c("DIAMONDS", 9)]);
+        const legal = legalActions(s);
+        expect(legal.filter((a) => a.type === "MELD")).toEqual([
+            { type: "MELD", cardIds: ["HEARTS-5", "SPADES-5", "CLUBS-5"], meldType: "BOOK" },
+        ]);
+        expect(legal.filter((a) => a.type === "DISCARD")).toHaveLength(4);
+        for (const action of legal) expect(applyAction(s, action).ok).toBe(true);
+    });
+
+    it("leaves out melds that would not keep a card to discard", () => {
+        const s = drawnWith([c("HEARTS", 5), c("SPADES", 5), c("CLUBS", 5)]);
+        expect(legalActions(s).map((a) => a.type)).toEqual(["DISCARD", "DISCARD", "DISCARD"]);
+    });
+
+    it("lists single-card lay offs onto the table", () => {
+        const melded = applyAction(drawnWith([c("HEARTS", 5), c("SPADES", 5), c("CLUBS", 5), c("STARS", 5), c("DIAMONDS", 9)]), {
+            type: "MELD",
+            cardIds: ["HEARTS-5", "SPADES-5", "CLUBS-5"],
+            meldType: "BOOK",
+        });
+        if (!melded.ok) throw new Error(melded.error.message);
+        const layoffs = legalActions(melded.value).filter((a) => a.type === "LAYOFF");
+        expect(layoffs).toEqual([{ type: "LAYOFF", meldId: melded.value.melds[0].id, cardIds: ["STARS-5"] }]);
+    });
+
+    it("is empty between rounds", () => {
+        expect(legalActions({ ...newGame({ seed: 1 }), status: "ROUND_END" })).toEqual([]);
+    });
+});
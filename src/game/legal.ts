@@ -0,0 +1,70 @@
+// src/game/legal.ts
+import type { MeldType } from "./types";
+import type { GameState } from "./state";
+import type { GameAction } from "./engine";
+import { applyAction } from "./engine";
+import { validateMeld } from "./validator";
+import { MAX_SOLVER_CARDS } from "./solver";
+
+/** Actions that move the game on; SORT / SELECT / UNDO / REDO only change the current turn's workspace */
+export type TurnAction = Extract<GameAction, { type: "DRAW_DECK" | "TAKE_DISCARD" | "MELD" | "LAYOFF" | "SWAP_WILD" | "DISCARD" }>;
+
+const TURN_ACTION_TYPES: ReadonlySet<GameAction["type"]> = new Set([
+    "DRAW_DECK",
+    "TAKE_DISCARD",
+    "MELD",
+    "LAYOFF",
+    "SWAP_WILD",
+    "DISCARD",
+]);
+
+export const isTurnAction = (action: GameAction): action is TurnAction => TURN_ACTION_TYPES.has(action.type);
+
+const MELD_TYPES: MeldType[] = ["BOOK", "RUN"];
+
+/** Every card subset of the hand that validates as a meld of its own (before the engine's other checks) */
+function meldCandidates(state: GameState): TurnAction[] {
+    const hand = state.players[state.currentPlayerIndex].hand;
+    // 2^n subsets: beyond the solver's bound this would stall the turn
+    if (hand.length > MAX_SOLVER_CARDS) return [];
+
+    const candidates: TurnAction[] = [];
+    for (let mask = 1; mask < 1 << hand.length; mask++) {
+        const cards = hand.filter((_, i) => mask & (1 << i));
+        if (cards.length < state.rule.ruleSet.minMeldSize) continue;
+        for (const meldType of MELD_TYPES) {
+            if (validateMeld(cards, meldType, state.rule).ok) {
+                candidates.push({ type: "MELD", cardIds: cards.map((c) => c.id), meldType });
+            }
+        }
+    }
+    return candidates;
+}
+
+function candidates(state: GameState): TurnAction[] {
+    if (state.turnPhase === "NEED_DRAW") return [{ type: "DRAW_DECK" }, { type: "TAKE_DISCARD" }];
+
+    const hand = state.players[state.currentPlayerIndex].hand;
+    return [
+        ...meldCandidates(state),
+        ...state.melds.flatMap((meld) =>
+            hand.flatMap((card): TurnAction[] => [
+                { type: "LAYOFF", meldId: meld.id, cardIds: [card.id] },
+                ...meld.cards.map((wild): TurnAction => ({ type: "SWAP_WILD", meldId: meld.id, cardId: card.id, wildCardId: wild.id })),
+            ])
+        ),
+        ...hand.map((card): TurnAction => ({ type: "DISCARD", cardId: card.id })),
+    ];
+}
+
+/**
+ * The moves the current player can make right now, as the engine would accept them.
+ * Each candidate is tried against applyAction, so the list follows every house rule.
+ *
+ * Lay offs are listed one card at a time; laying off several cards at once is legal as well.
+ * Empty when no turn is in progress.
+ */
+export function legalActions(state: GameState): TurnAction[] {
+    if (state.status !== "PLAYING") return [];
+    return candidates(state).filter((action) => applyAction(state, action).ok);
+}
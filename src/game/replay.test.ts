@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import type { GameState } from "./state";
+import { mulberry32 } from "./deck";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+import { chooseBotAction } from "./bot";
+import { replayGame } from "./replay";
+
+const playBotGame = (seed: number): GameState => {
+    let s = newGame({
+        seed,
+        seats: [
+            { name: "A", kind: "bot", botLevel: "hard" },
+            { name: "B", kind: "bot", botLevel: "easy" },
+            { name: "C", kind: "bot", botLevel: "easy" },
+        ],
+    });
+    const rng = mulberry32(seed);
+    while (s.status !== "GAME_OVER") {
+        const action = s.status === "ROUND_END" ? ({ type: "NEXT_ROUND" } as const) : chooseBotAction(s, rng);
+        const res = applyAction(s, action!);
+        if (!res.ok) throw new Error(res.error.message);
+        s = res.value;
+    }
+    return s;
+};
+
+describe("replay.replayGame", () => {
+    it("reproduces a full game from setup + log", () => {
+        const final = playBotGame(11);
+        const res = replayGame(final);
+        expect(res.ok).toBe(true);
+        if (!res.ok) return;
+
+        expect(res.value).toHaveLength(final.log.length + 1);
+        expect(res.value[res.value.length - 1].state).toEqual(final);
+    });
+
+    it("records the shuffle seed of every new round", () => {
+        const final = playBotGame(12);
+        const rounds = final.log.filter((e) => e.action.type === "NEXT_ROUND");
+        expect(rounds).toHaveLength(10);
+        for (const e of rounds) expect(typeof e.seed).toBe("number");
+    });
+
+    it("rejects a log that does not match the state", () => {
+        const final = playBotGame(13);
+        const tampered = { ...final, log: final.log.slice(0, -5) };
+        expect(replayGame(tampered).ok).toBe(false);
+    });
+});
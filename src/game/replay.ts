@@ -0,0 +1,55 @@
+// src/game/replay.ts
+import type { GameEvent, GameSetup, GameState } from "./state";
+import type { Result } from "./engine";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+
+/** State after `event` was applied (the first frame is the opening deal, without event) */
+export type ReplayFrame = { state: GameState; event?: GameEvent };
+
+export type ReplayError = { seq: number; message: string };
+
+/**
+ * Rebuild every intermediate state from the setup and the event log.
+ * Shuffles are reproduced from the seeds recorded on the events.
+ * `from` continues an earlier replay (the state its events led to) instead of starting at the deal.
+ */
+export function replayEvents(setup: GameSetup, events: GameEvent[], from?: GameState): Result<ReplayFrame[], ReplayError> {
+    let state =
+        from ??
+        newGame({
+            seats: setup.seats,
+            seed: setup.seed,
+            startDiscard: setup.startDiscard,
+            rules: setup.rules,
+        });
+    const frames: ReplayFrame[] = [{ state }];
+
+    for (const event of events) {
+        const result = applyAction(state, event.action, { seed: event.seed });
+        if (!result.ok) {
+            return { ok: false, error: { seq: event.seq, message: result.error.message } };
+        }
+        state = result.value;
+        frames.push({ state, event });
+    }
+
+    return { ok: true, value: frames };
+}
+
+/**
+ * Replay a game from its own log and check that it reproduces the given state
+ * (e.g. a save migrated from before logging started cannot be replayed).
+ */
+export function replayGame(state: GameState): Result<ReplayFrame[], ReplayError> {
+    const result = replayEvents(state.setup, state.log);
+    if (!result.ok) return result;
+
+    const last = result.value[result.value.length - 1].state;
+    const fingerprint = (s: GameState) =>
+        JSON.stringify([s.round, s.players.map((p) => p.hand.map((c) => c.id)), s.discardPile.map((c) => c.id)]);
+    if (fingerprint(last) !== fingerprint(state)) {
+        return { ok: false, error: { seq: state.log.length, message: "The log does not reproduce this game." } };
+    }
+    return result;
+}
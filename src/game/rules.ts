@@ -1,5 +1,5 @@
 // src/game/rules.ts
-import type { Rank, RoundRule, Suit } from "./types";
+import type { Rank, RoundRule, RuleSet, ScoringConfig, Suit } from "./types";
 
 export const FiveCrownsCompat = {
     suits: ["STARS", "HEARTS", "CLUBS", "SPADES", "DIAMONDS"] as Suit[],
@@ -7,19 +7,73 @@ export const FiveCrownsCompat = {
     decks: 2,
     jokersPerDeck: 3,
     totalRounds: 11,
-    // scoring
+    // defaults for DEFAULT_RULESET
     jokerPenalty: 50,
     wildPenalty: 20,
 };
 
-export function getRoundRule(round: number): RoundRule {
+export const DEFAULT_RULESET: RuleSet = {
+    decks: FiveCrownsCompat.decks,
+    jokersPerDeck: FiveCrownsCompat.jokersPerDeck,
+    minMeldSize: 3,
+    allowAllWildMelds: true,
+    allowLayoffBeforeFirstMeld: true,
+    goOutRequiresDiscard: true,
+    allowWildSwap: false,
+    drawPileExhausted: "NEW_DECK",
+    rotateDealer: true,
+    penalties: {
+        jokerPenalty: FiveCrownsCompat.jokerPenalty,
+        wildPenalty: FiveCrownsCompat.wildPenalty,
+    },
+};
+
+/** Upper bounds for the card counts, so no setting can build an unbounded deck */
+export const MAX_DECKS = 4;
+export const MAX_JOKERS_PER_DECK = 6;
+
+/** Overrides accepted by newGame; anything missing comes from DEFAULT_RULESET */
+export type RuleSetOptions = Partial<Omit<RuleSet, "penalties">> & { penalties?: Partial<ScoringConfig> };
+
+/**
+ * Merge house-rule overrides onto the defaults.
+ * Throws on values no game could be played with.
+ */
+export function createRuleSet(options?: RuleSetOptions): RuleSet {
+    const rules: RuleSet = {
+        ...DEFAULT_RULESET,
+        ...options,
+        penalties: { ...DEFAULT_RULESET.penalties, ...options?.penalties },
+    };
+
+    const isCount = (n: number, min: number, max = Infinity) => Number.isInteger(n) && n >= min && n <= max;
+    if (!isCount(rules.decks, 1, MAX_DECKS)) throw new Error(`Invalid decks: ${rules.decks} (1–${MAX_DECKS})`);
+    if (!isCount(rules.jokersPerDeck, 0, MAX_JOKERS_PER_DECK)) {
+        throw new Error(`Invalid jokersPerDeck: ${rules.jokersPerDeck} (0–${MAX_JOKERS_PER_DECK})`);
+    }
+    if (!isCount(rules.minMeldSize, 2)) throw new Error(`Invalid minMeldSize: ${rules.minMeldSize}`);
+    // round 1 must stay winnable: 3 cards in hand (+ the drawn one if going out needs no discard)
+    const meldableInRound1 = getRoundRule(1).handSize + (rules.goOutRequiresDiscard ? 0 : 1);
+    if (rules.minMeldSize > meldableInRound1) {
+        throw new Error(`minMeldSize ${rules.minMeldSize} would make round 1 impossible to go out in`);
+    }
+    if (rules.drawPileExhausted !== "NEW_DECK" && rules.drawPileExhausted !== "END_ROUND") {
+        throw new Error(`Invalid drawPileExhausted: ${rules.drawPileExhausted}`);
+    }
+    if (!isCount(rules.penalties.jokerPenalty, 0) || !isCount(rules.penalties.wildPenalty, 0)) {
+        throw new Error("Penalties must be non-negative integers");
+    }
+    return rules;
+}
+
+export function getRoundRule(round: number, ruleSet: RuleSet = DEFAULT_RULESET): RoundRule {
     if (round < 1 || round > FiveCrownsCompat.totalRounds) {
         throw new Error(`Invalid round: ${round}`);
     }
     // round1 handSize=3 ... round11 handSize=13
     const handSize = round + 2; // 1->3, 11->13
     const wildRank = (handSize as Rank); // 3..13
-    return { round, handSize, wildRank };
+    return { round, handSize, wildRank, ruleSet };
 }
 
 export function isJoker(rank: Rank): boolean {
@@ -37,20 +91,3 @@ export function rankLabel(rank: Rank): string {
     if (rank === 12) return "Q";
     return "K";
 }
-
-/**
- * Score a remaining hand (penalty): lower is better.
- * - Joker: 50
- * - Round wild (e.g., 7s in round with handSize=7): 20
- * - Number cards: face value
- * - J/Q/K: 11/12/13
- */
-export function scoreHand(ranks: Rank[], rule: RoundRule): number {
-    let total = 0;
-    for (const r of ranks) {
-        if (r === 0) total += FiveCrownsCompat.jokerPenalty;
-        else if (r === rule.wildRank) total += FiveCrownsCompat.wildPenalty;
-        else total += r;
-    }
-    return total;
-}
@@ -0,0 +1,188 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+import { SAVE_VERSION, deserializeGame, serializeGame, loadFromStorage, saveMigrations, saveToStorage } from "./save";
+
+const c = (suit: Suit, rank: Rank, id: string): Card => ({ id, suit, rank, deckIndex: 1 });
+
+const memoryStorage = () => {
+    const data = new Map<string, string>();
+    return {
+        getItem: (k: string) => data.get(k) ?? null,
+        setItem: (k: string, v: string) => void data.set(k, v),
+        removeItem: (k: string) => void data.delete(k),
+    };
+};
+
+describe("save.serializeGame / deserializeGame", () => {
+    it("round-trips a game in progress", () => {
+        const res = applyAction(newGame({ seed: 3 }), { type: "DRAW_DECK" });
+        if (!res.ok) throw new Error(res.error.message);
+
+        const loaded = deserializeGame(serializeGame(res.value));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) expect(loaded.value).toEqual(res.value);
+    });
+
+    it("rejects invalid JSON", () => {
+        const loaded = deserializeGame("{not json");
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.code).toBe("PARSE_ERROR");
+    });
+
+    it("rejects saves from a newer version", () => {
+        const raw = JSON.stringify({ version: SAVE_VERSION + 1, savedAt: "", state: newGame({ seed: 1 }) });
+        const loaded = deserializeGame(raw);
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.code).toBe("UNSUPPORTED_VERSION");
+    });
+
+    it("migrates v1 saves (no action log) to the current version", () => {
+        const game = newGame({ seed: 5 });
+        expect(game.log).toEqual([]);
+        const v1State: Record<string, unknown> = { ...game };
+        for (const key of ["setup", "log", "rngState", "history", "roundResults", "gameScores"]) delete v1State[key];
+        const loaded = deserializeGame(JSON.stringify({ version: 1, savedAt: "", state: v1State }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) {
+            expect(loaded.value.log).toEqual([]);
+            expect(loaded.value.setup.seats.map((s) => s.name)).toEqual(game.setup.seats.map((s) => s.name));
+        }
+    });
+
+    it("migrates v7 melds by resolving their wild assignment", () => {
+        const base = newGame({ seed: 1 }); // wild=3
+        const cards = [c("HEARTS", 7, "a"), c("STARS", 0, "w"), c("HEARTS", 5, "b")];
+        const v7State = { ...base, melds: [{ id: "R1-P1-1", playerId: "P1", type: "RUN", cards, round: 1 }] };
+        const loaded = deserializeGame(JSON.stringify({ version: 7, savedAt: "", state: v7State }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) {
+            expect(loaded.value.melds[0].cards.map((x) => x.id)).toEqual(["b", "w", "a"]);
+            expect(loaded.value.melds[0].assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7] });
+        }
+    });
+
+    it("migrates v9 MELD events to an explicit AUTO meld type", () => {
+        const base = newGame({ seed: 1 });
+        const event = { seq: 0, round: 1, playerId: "P1", action: { type: "MELD", cardIds: ["x"] } };
+        const loaded = deserializeGame(JSON.stringify({ version: 9, savedAt: "", state: { ...base, log: [event] } }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) expect(loaded.value.log[0].action).toEqual({ type: "MELD", cardIds: ["x"], meldType: "AUTO" });
+    });
+
+    it("migrates v10 rules to the default draw-pile exhaustion policy", () => {
+        const base = newGame({ seed: 1 });
+        const { drawPileExhausted, ...rules } = base.setup.rules;
+        const state = { ...base, setup: { ...base.setup, rules }, rule: { ...base.rule, ruleSet: rules } };
+        const loaded = deserializeGame(JSON.stringify({ version: 10, savedAt: "", state }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) {
+            expect(loaded.value.setup.rules.drawPileExhausted).toBe(drawPileExhausted);
+            expect(loaded.value.rule.ruleSet.drawPileExhausted).toBe("NEW_DECK");
+        }
+    });
+
+    it("migrates v11 games to a dealer seat without rotation, so their logs still replay", () => {
+        const base = newGame({ seed: 1 });
+        const { rotateDealer, ...rules } = base.setup.rules;
+        const state: Record<string, unknown> = { ...base, setup: { ...base.setup, rules }, rule: { ...base.rule, ruleSet: rules } };
+        delete state.dealerIndex;
+        expect(rotateDealer).toBe(true);
+        const loaded = deserializeGame(JSON.stringify({ version: 11, savedAt: "", state }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) {
+            expect(loaded.value.dealerIndex).toBe(1);
+            expect(loaded.value.setup.rules.rotateDealer).toBe(false);
+        }
+    });
+
+    it("migrates v12 games to a turn counter from their logged discards", () => {
+        const drawn = applyAction(newGame({ seed: 1 }), { type: "DRAW_DECK" });
+        if (!drawn.ok) throw new Error(drawn.error.message);
+        const played = applyAction(drawn.value, { type: "DISCARD", cardId: drawn.value.players[0].hand[0].id });
+        if (!played.ok) throw new Error(played.error.message);
+        const state: Record<string, unknown> = { ...played.value };
+        delete state.turnsPlayed;
+        const loaded = deserializeGame(JSON.stringify({ version: 12, savedAt: "", state }));
+        expect(loaded.ok).toBe(true);
+        if (loaded.ok) expect(loaded.value.turnsPlayed).toBe(1);
+    });
+
+    it("rejects structurally corrupt state with the offending path", () => {
+        const file = JSON.parse(serializeGame(newGame({ seed: 1 })));
+        file.state.players[1].hand[0].rank = 42;
+        const loaded = deserializeGame(JSON.stringify(file));
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) {
+            expect(loaded.error.code).toBe("INVALID_SCHEMA");
+            expect(loaded.error.message).toContain("state.players[1].hand[0].rank");
+        }
+    });
+
+    it("skips entries that are not players when migrating v1 seats", () => {
+        const migrated = saveMigrations[1]({ players: [null, { name: "Ann", kind: "human" }] });
+        expect(migrated.setup).toMatchObject({ seats: [{ name: "Ann", kind: "human" }] });
+    });
+
+    it("skips entries that are not players or scores when migrating v5 score history", () => {
+        const migrated = saveMigrations[5]({
+            players: [null, { id: "P1", score: 7 }],
+            roundResults: [null, { scores: [null, { playerId: "P1", points: 7 }] }, { scores: "x" }],
+        });
+        expect(migrated.gameScores).toEqual([{ playerId: "P1", roundScores: [7, 0], totalScore: 7 }]);
+    });
+
+    it("leaves v7 melds it cannot resolve as they are", () => {
+        const base = newGame({ seed: 1 });
+        const broken = { id: "m", type: "RUN", cards: [null] };
+        expect(saveMigrations[7]({ ...base, rule: undefined, melds: [broken] }).melds).toEqual([broken]);
+        expect(saveMigrations[7]({ ...base, melds: [broken, null] }).melds).toEqual([broken, null]);
+    });
+
+    it.each([
+        ["v1 with a null player", 1, { players: [null] }],
+        ["v5 with a null player and round result", 5, { players: [null], roundResults: [null] }],
+        ["v7 with no rule and a null meld card", 7, { melds: [{ id: "m", type: "RUN", cards: [null] }] }],
+    ])("reports a corrupt %s as INVALID_SCHEMA instead of throwing", (_, version, state) => {
+        const loaded = deserializeGame(JSON.stringify({ version, savedAt: "", state }));
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.code).toBe("INVALID_SCHEMA");
+    });
+
+    it("rejects scores missing for some players", () => {
+        const file = JSON.parse(serializeGame(newGame({ seed: 1 })));
+        file.state.gameScores = [];
+        const loaded = deserializeGame(JSON.stringify(file));
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.message).toContain("state.gameScores does not match the players");
+    });
+
+    it("rejects logged actions missing the fields a replay needs", () => {
+        const file = JSON.parse(serializeGame(newGame({ seed: 1 })));
+        file.state.log = [{ seq: 0, round: 1, playerId: "P1", action: { type: "MELD", meldType: "AUTO" } }];
+        const loaded = deserializeGame(JSON.stringify(file));
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.message).toContain("state.log[0].action.cardIds");
+    });
+
+    it("rejects duplicated cards", () => {
+        const file = JSON.parse(serializeGame(newGame({ seed: 1 })));
+        file.state.drawPile.push(file.state.players[0].hand[0]);
+        const loaded = deserializeGame(JSON.stringify(file));
+        expect(loaded.ok).toBe(false);
+        if (!loaded.ok) expect(loaded.error.code).toBe("INVALID_SCHEMA");
+    });
+});
+
+describe("save storage helpers", () => {
+    it("returns null without a save, and the game after saving", () => {
+        const storage = memoryStorage();
+        expect(loadFromStorage(storage)).toBeNull();
+
+        const state = newGame({ seed: 9 });
+        saveToStorage(storage, state);
+        const loaded = loadFromStorage(storage);
+        expect(loaded?.ok).toBe(true);
+    });
+});
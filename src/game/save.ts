@@ -0,0 +1,439 @@
+// src/game/save.ts
+import type { Card, RoundRule } from "./types";
+import type { GameState, Meld } from "./state";
+import type { Result } from "./engine";
+import { DEFAULT_RULESET, FiveCrownsCompat } from "./rules";
+import { recycleSeedState, roundSeed } from "./state";
+import { resolveMeld } from "./validator";
+
+/**
+ * Save format version. Bump it whenever GameState changes shape,
+ * and register a migration from the previous version below.
+ */
+export const SAVE_VERSION = 13;
+
+export const SAVE_STORAGE_KEY = "flux_rounds.save";
+
+export type SaveFile = {
+    version: number;
+    savedAt: string; // ISO timestamp
+    state: GameState;
+};
+
+export type SaveErrorCode = "PARSE_ERROR" | "UNSUPPORTED_VERSION" | "INVALID_SCHEMA";
+
+export type SaveError = { code: SaveErrorCode; message: string };
+
+/** Upgrades raw `state` data from version N to N + 1 */
+export type SaveMigration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/** Keyed by the version being migrated FROM */
+export const saveMigrations: Record<number, SaveMigration> = {
+    // v2: setup + action log. Older games keep playing but cannot be replayed.
+    1: (state) => ({
+        ...state,
+        setup: {
+            seats: Array.isArray(state.players)
+                ? state.players.filter(isRecord).map((p) => ({ name: p.name, kind: p.kind, botLevel: p.botLevel }))
+                : [],
+            seed: 0,
+            startDiscard: true,
+        },
+        log: [],
+    }),
+    // v3: recycle seed stream derived from the game seed
+    2: (state) => {
+        const setup = isRecord(state.setup) ? state.setup : {};
+        const seed = isInt(setup.seed) ? setup.seed : 0;
+        const round = isInt(state.round) ? state.round : 1;
+        return { ...state, rngState: recycleSeedState(roundSeed(seed, round)) };
+    },
+    // v4: in-turn undo/redo stacks
+    3: (state) => ({ ...state, history: { undo: [], redo: [] } }),
+    // v5: per-round score breakdown. Rounds finished before the upgrade have no entry.
+    4: (state) => ({ ...state, roundResults: [] }),
+    // v6: configurable scoring + GameScore history (totals carried over from player scores)
+    5: (state) => {
+        const players = Array.isArray(state.players) ? state.players.filter(isRecord) : [];
+        const results = Array.isArray(state.roundResults) ? state.roundResults.filter(isRecord) : [];
+        const pointsOf = (result: Record<string, unknown>, playerId: unknown) => {
+            const scores = Array.isArray(result.scores) ? result.scores.filter(isRecord) : [];
+            return scores.find((s) => s.playerId === playerId)?.points ?? 0;
+        };
+        return {
+            ...state,
+            setup: { ...(isRecord(state.setup) ? state.setup : {}), scoring: DEFAULT_RULESET.penalties },
+            gameScores: players.map((p) => ({
+                playerId: p.id,
+                roundScores: results.map((r) => pointsOf(r, p.id)),
+                totalScore: p.score,
+            })),
+        };
+    },
+    // v7: house rules (RuleSet) replace the scoring config; every RoundRule carries them
+    6: (state) => {
+        const { scoring, ...setup } = isRecord(state.setup) ? state.setup : {};
+        const rules = { ...DEFAULT_RULESET, penalties: isRecord(scoring) ? scoring : DEFAULT_RULESET.penalties };
+        return {
+            ...state,
+            setup: { ...setup, rules },
+            rule: { ...(isRecord(state.rule) ? state.rule : {}), ruleSet: rules },
+        };
+    },
+    // v8: melds carry their wild assignment. Undo snapshots predate it and are dropped.
+    // Melds that cannot be resolved (or a save without a usable rule) are left as they are for the schema check.
+    7: (state) => {
+        const rule = isRecord(state.rule) && isRecord(state.rule.ruleSet) ? (state.rule as RoundRule) : null;
+        const melds = Array.isArray(state.melds) ? state.melds : [];
+        const resolvable = (m: unknown): m is Meld =>
+            isRecord(m) && (m.type === "BOOK" || m.type === "RUN") && Array.isArray(m.cards) && m.cards.every((c) => checkCard(c, "") === null);
+        return {
+            ...state,
+            melds: melds.map((m: unknown) => {
+                if (!rule || !resolvable(m)) return m;
+                const res = resolveMeld(m.cards, m.type, rule);
+                return res.ok ? { ...m, cards: res.cards, assignment: res.assignment } : m;
+            }),
+            history: { undo: [], redo: [] },
+        };
+    },
+    // v9: wild swap house rule (off for games saved before it existed)
+    8: (state) => {
+        const setup = isRecord(state.setup) ? state.setup : {};
+        const rule = isRecord(state.rule) ? state.rule : {};
+        const rules = { ...(isRecord(setup.rules) ? setup.rules : {}), allowWildSwap: false };
+        return { ...state, setup: { ...setup, rules }, rule: { ...rule, ruleSet: rules } };
+    },
+    // v10: MELD actions name their meld type; logged melds were auto-detected
+    9: (state) => ({
+        ...state,
+        log: (Array.isArray(state.log) ? state.log : []).map((e: Record<string, unknown>) => {
+            const action = isRecord(e) ? e.action : undefined;
+            return isRecord(action) && action.type === "MELD" && action.meldType === undefined
+                ? { ...e, action: { ...action, meldType: "AUTO" } }
+                : e;
+        }),
+    }),
+    // v11: draw-pile exhaustion house rule (before it, an exhausted pile just refused the draw)
+    10: (state) => {
+        const setup = isRecord(state.setup) ? state.setup : {};
+        const rule = isRecord(state.rule) ? state.rule : {};
+        const rules = { ...(isRecord(setup.rules) ? setup.rules : {}), drawPileExhausted: DEFAULT_RULESET.drawPileExhausted };
+        return { ...state, setup: { ...setup, rules }, rule: { ...rule, ruleSet: rules } };
+    },
+    // v12: dealer seat. Older games never rotated it, so they keep going on from the last turn (and replay as before).
+    11: (state) => {
+        const setup = isRecord(state.setup) ? state.setup : {};
+        const rule = isRecord(state.rule) ? state.rule : {};
+        const rules = { ...(isRecord(setup.rules) ? setup.rules : {}), rotateDealer: false };
+        const players = Array.isArray(state.players) ? state.players : [];
+        return {
+            ...state,
+            setup: { ...setup, rules },
+            rule: { ...rule, ruleSet: rules },
+            dealerIndex: Math.max(players.length - 1, 0),
+        };
+    },
+    // v13: turn counter. Logged discards are the turns played (a meld that went out without one is missed).
+    12: (state) => {
+        const log = Array.isArray(state.log) ? state.log.filter(isRecord) : [];
+        return { ...state, turnsPlayed: log.filter((e) => isRecord(e.action) && e.action.type === "DISCARD").length };
+    },
+};
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export function serializeGame(state: GameState, now: Date = new Date()): string {
+    const file: SaveFile = { version: SAVE_VERSION, savedAt: now.toISOString(), state };
+    return JSON.stringify(file);
+}
+
+export function deserializeGame(raw: string): Result<GameState, SaveError> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return saveError("PARSE_ERROR", "Save data is not valid JSON.");
+    }
+
+    if (!isRecord(parsed) || typeof parsed.version !== "number" || !isRecord(parsed.state)) {
+        return saveError("INVALID_SCHEMA", "Save data is missing its version or state.");
+    }
+
+    let version = parsed.version;
+    if (version > SAVE_VERSION) {
+        return saveError(
+            "UNSUPPORTED_VERSION",
+            `Save was created by a newer version (v${version}); this app supports up to v${SAVE_VERSION}.`
+        );
+    }
+
+    let data: Record<string, unknown> = parsed.state;
+    while (version < SAVE_VERSION) {
+        const migrate = saveMigrations[version];
+        if (!migrate) {
+            return saveError("UNSUPPORTED_VERSION", `No migration available from save v${version}.`);
+        }
+        // migrations read older data as it should have been: a corrupt save must not crash the app on startup
+        try {
+            data = migrate(data);
+        } catch (e) {
+            const reason = e instanceof Error ? e.message : String(e);
+            return saveError("INVALID_SCHEMA", `Save data is corrupt: migrating from v${version} failed (${reason}).`);
+        }
+        version++;
+    }
+
+    const problem = checkGameState(data);
+    if (problem) return saveError("INVALID_SCHEMA", `Save data is corrupt: ${problem}`);
+    return { ok: true, value: data as unknown as GameState };
+}
+
+export function saveToStorage(storage: StorageLike, state: GameState): void {
+    storage.setItem(SAVE_STORAGE_KEY, serializeGame(state));
+}
+
+/** Returns null when there is no save at all */
+export function loadFromStorage(storage: StorageLike): Result<GameState, SaveError> | null {
+    const raw = storage.getItem(SAVE_STORAGE_KEY);
+    if (raw === null) return null;
+    return deserializeGame(raw);
+}
+
+export function clearStorage(storage: StorageLike): void {
+    storage.removeItem(SAVE_STORAGE_KEY);
+}
+
+function saveError(code: SaveErrorCode, message: string): Result<GameState, SaveError> {
+    return { ok: false, error: { code, message } };
+}
+
+/* ------------------------------------------------------------------ */
+/* Schema checks: each returns a problem description, or null if valid */
+/* ------------------------------------------------------------------ */
+
+type Check = (value: unknown, path: string) => string | null;
+
+const VALID_RANKS = new Set<number>([0, ...FiveCrownsCompat.ranks]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isInt = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v);
+
+function oneOf(values: readonly unknown[]): Check {
+    return (v, path) => (values.includes(v) ? null : `${path} has unexpected value ${JSON.stringify(v)}`);
+}
+
+const str: Check = (v, path) => (typeof v === "string" ? null : `${path} must be a string`);
+const int: Check = (v, path) => (isInt(v) ? null : `${path} must be an integer`);
+const bool: Check = (v, path) => (typeof v === "boolean" ? null : `${path} must be a boolean`);
+
+function optional(check: Check): Check {
+    return (v, path) => (v === undefined ? null : check(v, path));
+}
+
+function nullable(check: Check): Check {
+    return (v, path) => (v === null ? null : check(v, path));
+}
+
+function arrayOf(check: Check): Check {
+    return (v, path) => {
+        if (!Array.isArray(v)) return `${path} must be an array`;
+        for (let i = 0; i < v.length; i++) {
+            const problem = check(v[i], `${path}[${i}]`);
+            if (problem) return problem;
+        }
+        return null;
+    };
+}
+
+function shape(fields: Record<string, Check>): Check {
+    return (v, path) => {
+        if (!isRecord(v)) return `${path} must be an object`;
+        for (const [key, check] of Object.entries(fields)) {
+            const problem = check(v[key], `${path}.${key}`);
+            if (problem) return problem;
+        }
+        return null;
+    };
+}
+
+const checkRank: Check = (v, path) => (isInt(v) && VALID_RANKS.has(v) ? null : `${path} is not a valid rank`);
+
+const checkCard = shape({
+    id: str,
+    suit: oneOf(FiveCrownsCompat.suits),
+    rank: checkRank,
+    deckIndex: int,
+});
+
+const checkPlayer = shape({
+    id: str,
+    name: str,
+    kind: oneOf(["human", "bot"]),
+    botLevel: optional(oneOf(["easy", "hard"])),
+    hand: arrayOf(checkCard),
+    score: int,
+});
+
+const checkAssignment: Check = (v, path) =>
+    isRecord(v) && v.type === "RUN"
+        ? shape({ suit: nullable(oneOf(FiveCrownsCompat.suits)), ranks: arrayOf(checkRank) })(v, path)
+        : shape({ type: oneOf(["BOOK"]), rank: nullable(checkRank) })(v, path);
+
+const checkMeld = shape({
+    id: str,
+    playerId: str,
+    type: oneOf(["BOOK", "RUN"]),
+    cards: arrayOf(checkCard),
+    assignment: checkAssignment,
+    round: int,
+});
+
+const checkSnapshot = shape({
+    hand: arrayOf(checkCard),
+    melds: arrayOf(checkMeld),
+});
+
+const checkRoundScore = shape({
+    playerId: str,
+    handCards: arrayOf(checkCard),
+    penalties: arrayOf(shape({ cardId: str, kind: oneOf(["JOKER", "WILD", "NATURAL"]), points: int })),
+    points: int,
+    wentOut: bool,
+});
+
+const checkRoundResult = shape({
+    round: int,
+    wildRank: checkRank,
+    outPlayerId: optional(str),
+    scores: arrayOf(checkRoundScore),
+});
+
+const checkGameScore = shape({
+    playerId: str,
+    roundScores: arrayOf(int),
+    totalScore: int,
+});
+
+const checkRuleSet = shape({
+    decks: int,
+    jokersPerDeck: int,
+    minMeldSize: int,
+    allowAllWildMelds: bool,
+    allowLayoffBeforeFirstMeld: bool,
+    goOutRequiresDiscard: bool,
+    allowWildSwap: bool,
+    drawPileExhausted: oneOf(["NEW_DECK", "END_ROUND"]),
+    rotateDealer: bool,
+    penalties: shape({ jokerPenalty: int, wildPenalty: int }),
+});
+
+const checkSeat = shape({
+    name: str,
+    kind: optional(oneOf(["human", "bot"])),
+    botLevel: optional(oneOf(["easy", "hard"])),
+});
+
+/** The fields each logged action type needs to be replayed (SELECT is never logged) */
+const ACTION_FIELDS: Record<string, Record<string, Check>> = {
+    DRAW_DECK: {},
+    TAKE_DISCARD: {},
+    MELD: { cardIds: arrayOf(str), meldType: oneOf(["BOOK", "RUN", "AUTO"]) },
+    LAYOFF: { meldId: str, cardIds: arrayOf(str) },
+    SWAP_WILD: { meldId: str, cardId: str, wildCardId: str },
+    DISCARD: { cardId: str },
+    NEXT_ROUND: {},
+    SORT: { by: oneOf(["RANK", "SUIT"]) },
+    UNDO: {},
+    REDO: {},
+};
+
+const checkAction: Check = (v, path) => {
+    if (!isRecord(v)) return `${path} must be an object`;
+    if (typeof v.type !== "string" || !Object.hasOwn(ACTION_FIELDS, v.type)) {
+        return `${path}.type has unexpected value ${JSON.stringify(v.type)}`;
+    }
+    return shape(ACTION_FIELDS[v.type])(v, path);
+};
+
+const checkEvent = shape({
+    seq: int,
+    round: int,
+    playerId: str,
+    action: checkAction,
+    seed: optional(int),
+});
+
+const checkStateShape = shape({
+    round: int,
+    rule: shape({ round: int, handSize: int, wildRank: checkRank, ruleSet: checkRuleSet }),
+    players: arrayOf(checkPlayer),
+    currentPlayerIndex: int,
+    dealerIndex: int,
+    drawPile: arrayOf(checkCard),
+    discardPile: arrayOf(checkCard),
+    melds: arrayOf(checkMeld),
+    selectedCardIds: arrayOf(str),
+    turnPhase: oneOf(["NEED_DRAW", "NEED_DISCARD"]),
+    history: shape({ undo: arrayOf(checkSnapshot), redo: arrayOf(checkSnapshot) }),
+    turnsPlayed: int,
+    outTriggeredByPlayerId: optional(str),
+    turnsRemainingAfterOut: optional(int),
+    status: oneOf(["PLAYING", "ROUND_END", "GAME_OVER"]),
+    message: optional(str),
+    roundResults: arrayOf(checkRoundResult),
+    gameScores: arrayOf(checkGameScore),
+    setup: shape({
+        seats: arrayOf(checkSeat),
+        seed: int,
+        startDiscard: bool,
+        rules: checkRuleSet,
+    }),
+    log: arrayOf(checkEvent),
+    rngState: int,
+});
+
+/** Structural check, then the invariants a hand-edited or truncated save could break */
+function checkGameState(data: Record<string, unknown>): string | null {
+    const problem = checkStateShape(data, "state");
+    if (problem) return problem;
+
+    const state = data as unknown as GameState;
+    if (state.round < 1 || state.round > FiveCrownsCompat.totalRounds) return "state.round is out of range";
+    if (state.players.length < 2) return "state.players must have at least 2 players";
+    if (state.currentPlayerIndex < 0 || state.currentPlayerIndex >= state.players.length) {
+        return "state.currentPlayerIndex is out of range";
+    }
+    if (state.dealerIndex < 0 || state.dealerIndex >= state.players.length) {
+        return "state.dealerIndex is out of range";
+    }
+    if (
+        state.gameScores.length !== state.players.length ||
+        state.gameScores.some((g, i) => g.playerId !== state.players[i].id || g.totalScore !== state.players[i].score)
+    ) {
+        return "state.gameScores does not match the players";
+    }
+    for (const meld of state.melds) {
+        const { assignment } = meld;
+        if (assignment.type !== meld.type) return `meld ${meld.id} assignment does not match its type`;
+        if (assignment.type === "RUN" && assignment.ranks.length !== meld.cards.length) {
+            return `meld ${meld.id} assignment does not cover its cards`;
+        }
+    }
+
+    const allCards: Card[] = [
+        ...state.drawPile,
+        ...state.discardPile,
+        ...state.players.flatMap((p) => p.hand),
+        ...state.melds.flatMap((m) => m.cards),
+    ];
+    const ids = new Set<string>();
+    for (const card of allCards) {
+        if (ids.has(card.id)) return `card ${card.id} appears more than once`;
+        ids.add(card.id);
+    }
+    return null;
+}
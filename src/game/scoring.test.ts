@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import { getRoundRule } from "./rules";
+import { endRound, newGame, nextRound } from "./state";
+import { solveHand } from "./solver";
+import {
+    calculateHandScore,
+    calculateRoundScores,
+    createRoundResult,
+    scoreCards,
+    scoreHand,
+} from "./scoring";
+
+/**
+ * Test helpers
+ */
+const c = (suit: Suit, rank: Rank, id?: string): Card => ({
+    id: id ?? `${suit}-${rank}-${Math.random().toString(16).slice(2)}`,
+    suit,
+    rank,
+    deckIndex: 1,
+});
+
+describe("scoring.scoreCards", () => {
+    it("annotates Jokers and round wilds", () => {
+        const r = getRoundRule(5); // wild=7
+        const hand = [c("STARS", 0, "j"), c("HEARTS", 7, "w"), c("CLUBS", 12, "q")];
+        expect(scoreCards(hand, r)).toEqual([
+            { cardId: "j", kind: "JOKER", points: 50 },
+            { cardId: "w", kind: "WILD", points: 20 },
+            { cardId: "q", kind: "NATURAL", points: 12 },
+        ]);
+    });
+});
+
+describe("scoring.createRoundResult", () => {
+    it("totals each hand and marks who went out", () => {
+        const r = getRoundRule(1); // wild=3
+        const result = createRoundResult(
+            [
+                { playerId: "P1", hand: [] },
+                { playerId: "P2", hand: [c("HEARTS", 3), c("SPADES", 9)] },
+            ],
+            r,
+            "P1"
+        );
+        expect(result.round).toBe(1);
+        expect(result.outPlayerId).toBe("P1");
+        expect(result.scores.map((s) => [s.playerId, s.points, s.wentOut])).toEqual([
+            ["P1", 0, true],
+            ["P2", 29, false],
+        ]);
+    });
+});
+
+describe("state.endRound round results", () => {
+    it("records one result per round that matches the score change", () => {
+        const s = newGame({ seed: 3, playerNames: ["A", "B", "C"] });
+        const ended = endRound({ ...s, outTriggeredByPlayerId: "P2" });
+
+        expect(ended.roundResults).toHaveLength(1);
+        const [result] = ended.roundResults;
+        expect(result.outPlayerId).toBe("P2");
+        result.scores.forEach((score, i) => {
+            expect(score.handCards).toEqual(s.players[i].hand);
+            const leftover = scoreHand(s.players[i].hand.map((x) => x.rank), s.rule);
+            expect(score.points).toBe(score.wentOut ? 0 : leftover);
+            expect(ended.players[i].score).toBe(score.points);
+        });
+    });
+});
+
+describe("scoring engine agreement", () => {
+    const r = getRoundRule(5); // wild=7
+    const hand = [c("STARS", 0), c("HEARTS", 7), c("CLUBS", 12), c("SPADES", 4), c("DIAMONDS", 0)];
+
+    it("scoreHand, calculateHandScore and the per-card breakdown agree (Joker 50, wild 20)", () => {
+        const total = scoreHand(hand.map((x) => x.rank), r);
+        expect(total).toBe(50 + 20 + 12 + 4 + 50);
+        expect(calculateHandScore(hand, r)).toBe(total);
+        expect(scoreCards(hand, r).reduce((sum, p) => sum + p.points, 0)).toBe(total);
+    });
+
+    it("endRound scores match calculateRoundScores for the same hands", () => {
+        let s = newGame({ seed: 9, playerNames: ["A", "B", "C"] });
+        s = { ...s, players: s.players.map((p, i) => (i === 1 ? { ...p, hand: hand } : p)) };
+        const ended = endRound(s);
+
+        const direct = calculateRoundScores(new Map(s.players.map((p) => [p.id, p.hand])), undefined, s.rule);
+        expect(ended.roundResults[0].scores).toEqual(direct);
+        expect(ended.gameScores.map((g) => g.totalScore)).toEqual(direct.map((d) => d.points));
+        expect(ended.players.map((p) => p.score)).toEqual(direct.map((d) => d.points));
+    });
+
+    it("uses the game's RuleSet penalties everywhere", () => {
+        let s = newGame({ seed: 9, rules: { penalties: { jokerPenalty: 25, wildPenalty: 15 } } }); // round 1: wild=3
+        const hand = [c("STARS", 0), c("HEARTS", 3), c("CLUBS", 12), c("SPADES", 4), c("DIAMONDS", 0)];
+        s = { ...s, players: s.players.map((p, i) => (i === 0 ? { ...p, hand } : p)) };
+        const ended = endRound(s);
+
+        const expected = 25 + 15 + 12 + 4 + 25;
+        expect(scoreHand(hand.map((x) => x.rank), s.rule)).toBe(expected);
+        expect(ended.roundResults[0].scores[0].points).toBe(expected);
+        const solved = solveHand(hand, s.rule);
+        expect(solved.penalty).toBe(scoreHand(solved.leftover.map((x) => x.rank), s.rule));
+    });
+
+    it("accumulates GameScore across rounds", () => {
+        let s = newGame({ seed: 2 });
+        s = endRound(s);
+        s = endRound(nextRound(s));
+        expect(s.gameScores[0].roundScores).toHaveLength(2);
+        expect(s.gameScores[0].totalScore).toBe(s.gameScores[0].roundScores[0] + s.gameScores[0].roundScores[1]);
+        expect(s.players[0].score).toBe(s.gameScores[0].totalScore);
+    });
+});
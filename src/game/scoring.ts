@@ -1,6 +1,20 @@
 // src/game/scoring.ts
-import type { Card, RoundRule } from "./types";
-import { isWildRank } from "./rules";
+import type { Card, Rank, RoundRule, ScoringConfig } from "./types";
+import { isJoker, isWildRank } from "./rules";
+
+/*
+ * Everything that scores a hand (endRound, scoreboard, solver, bots) goes through rankPenalty().
+ * Penalty values come from the game's RuleSet (rule.ruleSet.penalties) unless overridden.
+ */
+
+export type PenaltyKind = "JOKER" | "WILD" | "NATURAL";
+
+/** Penalty charged for one leftover card */
+export type CardPenalty = {
+    cardId: string;
+    kind: PenaltyKind;
+    points: number;
+};
 
 /**
  * Player score for a single round
@@ -8,23 +22,82 @@ import { isWildRank } from "./rules";
 export type RoundScore = {
     playerId: string;
     handCards: Card[];
+    penalties: CardPenalty[]; // same order as handCards
     points: number;
     wentOut: boolean;
 };
 
+/**
+ * Result of one finished round, kept in GameState.roundResults
+ */
+export type RoundResult = {
+    round: number;
+    wildRank: Rank;
+    outPlayerId?: string; // player who went out (ended the round)
+    scores: RoundScore[]; // seat order
+};
+
+export function penaltyKind(rank: Rank, rule: RoundRule): PenaltyKind {
+    if (isJoker(rank)) return "JOKER";
+    return isWildRank(rank, rule) ? "WILD" : "NATURAL";
+}
+
+/**
+ * Penalty of a single leftover card:
+ * - Joker: jokerPenalty (50)
+ * - Round wild (e.g., 7s in round with handSize=7): wildPenalty (20)
+ * - Number cards: face value, J/Q/K: 11/12/13
+ */
+export function rankPenalty(
+    rank: Rank,
+    rule: RoundRule,
+    config: ScoringConfig = rule.ruleSet.penalties
+): number {
+    switch (penaltyKind(rank, rule)) {
+        case "JOKER":
+            return config.jokerPenalty;
+        case "WILD":
+            return config.wildPenalty;
+        case "NATURAL":
+            return rank;
+    }
+}
+
+/**
+ * Score a remaining hand (penalty): lower is better.
+ */
+export function scoreHand(
+    ranks: Rank[],
+    rule: RoundRule,
+    config: ScoringConfig = rule.ruleSet.penalties
+): number {
+    return ranks.reduce<number>((total, r) => total + rankPenalty(r, rule, config), 0);
+}
+
+/**
+ * Per-card penalty breakdown
+ */
+export function scoreCards(
+    hand: Card[],
+    rule: RoundRule,
+    config: ScoringConfig = rule.ruleSet.penalties
+): CardPenalty[] {
+    return hand.map((card) => ({
+        cardId: card.id,
+        kind: penaltyKind(card.rank, rule),
+        points: rankPenalty(card.rank, rule, config),
+    }));
+}
+
 /**
  * Calculate score for remaining cards in hand at end of round
- * MVP: card rank = points, wild card = wildPenalty (default 20)
  */
 export function calculateHandScore(
     hand: Card[],
     rule: RoundRule,
-    wildPenalty = 20
+    config: ScoringConfig = rule.ruleSet.penalties
 ): number {
-    return hand.reduce((total, card) => {
-        const points = isWildRank(card.rank, rule) ? wildPenalty : card.rank;
-        return total + points;
-    }, 0);
+    return scoreHand(hand.map((c) => c.rank), rule, config);
 }
 
 /**
@@ -33,19 +106,21 @@ export function calculateHandScore(
  */
 export function calculateRoundScores(
     playerHands: Map<string, Card[]>,
-    winnerId: string,
+    winnerId: string | undefined,
     rule: RoundRule,
-    wildPenalty = 20
+    config: ScoringConfig = rule.ruleSet.penalties
 ): RoundScore[] {
     const scores: RoundScore[] = [];
 
     for (const [playerId, hand] of playerHands) {
         const wentOut = playerId === winnerId;
-        const points = wentOut ? 0 : calculateHandScore(hand, rule, wildPenalty);
+        const penalties = scoreCards(hand, rule, config);
+        const points = wentOut ? 0 : penalties.reduce((total, p) => total + p.points, 0);
 
         scores.push({
             playerId,
             handCards: hand,
+            penalties,
             points,
             wentOut,
         });
@@ -54,6 +129,24 @@ export function calculateRoundScores(
     return scores;
 }
 
+/**
+ * Build the round result (seat order) from every player's leftover hand
+ */
+export function createRoundResult(
+    hands: { playerId: string; hand: Card[] }[],
+    rule: RoundRule,
+    outPlayerId?: string,
+    config: ScoringConfig = rule.ruleSet.penalties
+): RoundResult {
+    const playerHands = new Map(hands.map(({ playerId, hand }) => [playerId, hand]));
+    return {
+        round: rule.round,
+        wildRank: rule.wildRank,
+        ...(outPlayerId === undefined ? {} : { outPlayerId }),
+        scores: calculateRoundScores(playerHands, outPlayerId, rule, config),
+    };
+}
+
 /**
  * Cumulative score tracking across rounds
  */
@@ -81,11 +174,11 @@ export function addRoundScore(
     gameScore: GameScore,
     roundPoints: number
 ): GameScore {
-    const newRoundScores = [...gameScore.roundScores, roundPoints];
+    // add to the running total (saves migrated mid-game have a total but no earlier rounds)
     return {
         ...gameScore,
-        roundScores: newRoundScores,
-        totalScore: newRoundScores.reduce((a, b) => a + b, 0),
+        roundScores: [...gameScore.roundScores, roundPoints],
+        totalScore: gameScore.totalScore + roundPoints,
     };
 }
 
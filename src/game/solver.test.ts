@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import { getRoundRule } from "./rules";
+import { scoreHand } from "./scoring";
+import { validateMeld } from "./validator";
+import { solveHand, solveDiscardOptions } from "./solver";
+
+/**
+ * Test helpers
+ */
+const c = (suit: Suit, rank: Rank, id?: string): Card => ({
+    id: id ?? `${suit}-${rank}-${Math.random().toString(16).slice(2)}`,
+    suit,
+    rank,
+    deckIndex: 1,
+});
+
+describe("solver.solveHand", () => {
+    it("melds everything when possible", () => {
+        const r = getRoundRule(4); // wild=6
+        const hand = [
+            c("HEARTS", 9), c("CLUBS", 9), c("SPADES", 9),
+            c("STARS", 4), c("STARS", 5), c("CLUBS", 6), c("STARS", 7),
+        ];
+        const res = solveHand(hand, r);
+        expect(res.penalty).toBe(0);
+        expect(res.canGoOut).toBe(true);
+        expect(res.leftover).toHaveLength(0);
+    });
+
+    it("uses a wild to bridge a run gap and leaves the cheapest cards", () => {
+        const r = getRoundRule(1); // wild=3
+        const hand = [c("HEARTS", 5), c("HEARTS", 7), c("SPADES", 3, "w"), c("CLUBS", 13, "k")];
+        const res = solveHand(hand, r);
+        expect(res.melds).toHaveLength(1);
+        expect(res.melds[0].cards.map((x) => x.id)).toContain("w");
+        expect(res.leftover.map((x) => x.id)).toEqual(["k"]);
+        expect(res.penalty).toBe(13);
+    });
+
+    it("beats a greedy book-first split", () => {
+        const r = getRoundRule(11); // wild=K
+        // Greedy "book of 5s" strands 4♥ and 6♥; the optimum is two runs + nothing left
+        const hand = [
+            c("HEARTS", 4), c("HEARTS", 5), c("HEARTS", 6),
+            c("CLUBS", 4), c("CLUBS", 5), c("CLUBS", 6),
+            c("SPADES", 5),
+        ];
+        const res = solveHand(hand, r);
+        expect(res.penalty).toBe(5);
+        expect(res.leftover.map((x) => x.rank)).toEqual([5]);
+    });
+
+    it("returns melds that validate and leftover that scores to the penalty", () => {
+        const r = getRoundRule(11); // wild=K
+        const hand = [
+            c("STARS", 0), c("HEARTS", 13), c("CLUBS", 3), c("CLUBS", 4), c("DIAMONDS", 9),
+            c("DIAMONDS", 10), c("SPADES", 12), c("SPADES", 12), c("HEARTS", 8), c("HEARTS", 7),
+            c("STARS", 11), c("CLUBS", 11), c("DIAMONDS", 5), c("STARS", 6),
+        ];
+        const res = solveHand(hand, r);
+        for (const m of res.melds) expect(validateMeld(m.cards, m.type, r).ok).toBe(true);
+        expect(res.penalty).toBe(scoreHand(res.leftover.map((x) => x.rank), r));
+        const used = res.melds.flatMap((m) => m.cards).length + res.leftover.length;
+        expect(used).toBe(hand.length);
+    });
+});
+
+describe("solver.solveDiscardOptions", () => {
+    it("finds the go-out discard", () => {
+        const r = getRoundRule(1); // wild=3
+        const hand = [c("HEARTS", 8), c("CLUBS", 8), c("SPADES", 8), c("DIAMONDS", 12, "q")];
+        const [best] = solveDiscardOptions(hand, r);
+        expect(best.discard.id).toBe("q");
+        expect(best.solution.canGoOut).toBe(true);
+    });
+});
@@ -0,0 +1,117 @@
+// src/game/solver.ts
+import type { Card, MeldType, RoundRule } from "./types";
+import { rankPenalty } from "./scoring";
+import { validateMeld } from "./validator";
+
+export type MeldCandidate = { type: MeldType; cards: Card[] };
+
+export type HandSolution = {
+    melds: MeldCandidate[];
+    leftover: Card[];
+    penalty: number;    // scoreHand() of leftover
+    canGoOut: boolean;  // every card is melded
+};
+
+export type DiscardOption = { discard: Card; solution: HandSolution };
+
+/** 2^n tables: keep hands at a size where this stays instant (max real hand is 13 + 1 drawn) */
+export const MAX_SOLVER_CARDS = 16;
+
+const BOOK_BIT = 1;
+const RUN_BIT = 2;
+
+type SolverTable = {
+    cards: Card[];
+    best: Float64Array;   // best[mask] = min penalty for the cards in mask
+    choice: Int32Array;   // meld mask used at best[mask] (0 = lowest card left over)
+    meldKind: Uint8Array; // BOOK_BIT | RUN_BIT per valid meld mask
+};
+
+function buildTable(cards: Card[], rule: RoundRule): SolverTable {
+    const n = cards.length;
+    if (n > MAX_SOLVER_CARDS) throw new Error(`Solver supports at most ${MAX_SOLVER_CARDS} cards`);
+
+    const size = 1 << n;
+    const penalties = cards.map((c) => rankPenalty(c.rank, rule));
+
+    // Precompute which subsets form a valid meld
+    const meldKind = new Uint8Array(size);
+    for (let mask = 0; mask < size; mask++) {
+        const group: Card[] = [];
+        for (let i = 0; i < n; i++) if (mask & (1 << i)) group.push(cards[i]);
+        if (group.length < rule.ruleSet.minMeldSize) continue;
+        if (validateMeld(group, "BOOK", rule).ok) meldKind[mask] |= BOOK_BIT;
+        if (validateMeld(group, "RUN", rule).ok) meldKind[mask] |= RUN_BIT;
+    }
+
+    // DP over subsets: the lowest card is either left over, or part of a meld within mask
+    const best = new Float64Array(size);
+    const choice = new Int32Array(size);
+    for (let mask = 1; mask < size; mask++) {
+        const low = mask & -mask;
+        const rest = mask ^ low;
+        let value = best[rest] + penalties[31 - Math.clz32(low)];
+        let pick = 0;
+
+        for (let sub = rest; sub > 0; sub = (sub - 1) & rest) {
+            const meld = sub | low;
+            if (meldKind[meld] && best[mask ^ meld] < value) {
+                value = best[mask ^ meld];
+                pick = meld;
+            }
+        }
+        best[mask] = value;
+        choice[mask] = pick;
+    }
+
+    return { cards, best, choice, meldKind };
+}
+
+function reconstruct(table: SolverTable, mask: number): HandSolution {
+    const { cards, best, choice, meldKind } = table;
+    const melds: MeldCandidate[] = [];
+    const leftover: Card[] = [];
+
+    let m = mask;
+    while (m) {
+        const pick = choice[m];
+        if (pick === 0) {
+            const low = m & -m;
+            leftover.push(cards[31 - Math.clz32(low)]);
+            m ^= low;
+            continue;
+        }
+        const group = cards.filter((_, i) => pick & (1 << i));
+        melds.push({ type: meldKind[pick] & BOOK_BIT ? "BOOK" : "RUN", cards: group });
+        m ^= pick;
+    }
+
+    return { melds, leftover, penalty: best[mask], canGoOut: leftover.length === 0 };
+}
+
+/**
+ * Partition a hand into BOOKs/RUNs that minimizes the remaining penalty.
+ * Exact (not greedy): wild-aware through validateMeld.
+ */
+export function solveHand(cards: Card[], rule: RoundRule): HandSolution {
+    const table = buildTable(cards, rule);
+    return reconstruct(table, (1 << cards.length) - 1);
+}
+
+/**
+ * For a hand after drawing: the best partition for every possible discard,
+ * sorted best first (ties: throw the more expensive card).
+ * A solution with canGoOut means "discard this card and go out".
+ */
+export function solveDiscardOptions(cards: Card[], rule: RoundRule): DiscardOption[] {
+    const table = buildTable(cards, rule);
+    const full = (1 << cards.length) - 1;
+
+    return cards
+        .map((discard, i) => ({ discard, solution: reconstruct(table, full ^ (1 << i)) }))
+        .sort(
+            (a, b) =>
+                a.solution.penalty - b.solution.penalty ||
+                rankPenalty(b.discard.rank, rule) - rankPenalty(a.discard.rank, rule)
+        );
+}
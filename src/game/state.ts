@@ -1,11 +1,21 @@
 // src/game/state.ts
-import type { Card, MeldType, RoundRule } from "./types";
-import { FiveCrownsCompat, getRoundRule, scoreHand } from "./rules";
-import { createDecks, shuffle, deal, mulberry32, defaultRng } from "./deck";
+import type { Card, MeldAssignment, MeldType, RoundRule, RuleSet } from "./types";
+import type { GameAction } from "./engine";
+import type { GameScore, RoundResult } from "./scoring";
+import type { RuleSetOptions } from "./rules";
+import { FiveCrownsCompat, createRuleSet, getRoundRule } from "./rules";
+import { addRoundScore, createGameScore, createRoundResult, determineGameWinners } from "./scoring";
+import { createDecksForRules, deckSizeForRules, cardsNeeded, shuffle, deal, mulberry32, randomSeed, deriveSeed, seedFromString } from "./deck";
+
+export type PlayerKind = "human" | "bot";
+
+export type BotLevel = "easy" | "hard";
 
 export type PlayerState = {
     id: string;
     name: string;
+    kind: PlayerKind;
+    botLevel?: BotLevel; // only for kind === "bot"
     hand: Card[];
     score: number;
 };
@@ -14,18 +24,55 @@ export type Meld = {
     id: string;
     playerId: string;
     type: MeldType;
-    cards: Card[];
+    cards: Card[]; // table order (RUNs sorted by rank)
+    assignment: MeldAssignment; // what each card stands for, see resolveMeld
     round: number;
 };
 
 export type TurnPhase = "NEED_DRAW" | "NEED_DISCARD";
 
+/** Current player's hand + table before an undoable action (MELD / LAYOFF / SWAP_WILD) */
+export type TurnSnapshot = {
+    hand: Card[];
+    melds: Meld[];
+};
+
+/**
+ * Undo/redo stacks for the current player's NEED_DISCARD phase.
+ * Cleared when the discard commits, so undo never reaches back past a draw.
+ */
+export type TurnHistory = {
+    undo: TurnSnapshot[];
+    redo: TurnSnapshot[];
+};
+
+/** Everything needed to recreate the opening deal (replays) */
+export type GameSetup = {
+    seats: SeatConfig[];
+    seed: number; // game seed: round 1 shuffle; every later shuffle derives from it
+    startDiscard: boolean;
+    rules: RuleSet;
+};
+
+/**
+ * One applied action (append-only). `seed` is set when the action shuffled
+ * (NEXT_ROUND deal, or DRAW_DECK recycling the discard pile) so replays reproduce it.
+ */
+export type GameEvent = {
+    seq: number;
+    round: number;
+    playerId: string; // player whose turn it was
+    action: GameAction;
+    seed?: number;
+};
+
 export type GameState = {
     round: number;
     rule: RoundRule;
 
     players: PlayerState[];
     currentPlayerIndex: number;
+    dealerIndex: number; // seat that dealt this round; the player to their left starts
 
     drawPile: Card[];
     discardPile: Card[];
@@ -33,6 +80,8 @@ export type GameState = {
 
     selectedCardIds: string[];
     turnPhase: TurnPhase;
+    history: TurnHistory;
+    turnsPlayed: number; // completed turns this game: a turn ends with a discard, or with a meld / lay off that goes out
 
     // Five Crowns feel: go out → others get one last turn
     outTriggeredByPlayerId?: string;
@@ -40,82 +89,169 @@ export type GameState = {
 
     status: "PLAYING" | "ROUND_END" | "GAME_OVER";
     message?: string;
+
+    roundResults: RoundResult[]; // one entry per finished round
+    gameScores: GameScore[]; // seat order; players[i].score mirrors gameScores[i].totalScore
+
+    setup: GameSetup;
+    log: GameEvent[];
+    rngState: number; // seed stream for discard recycles this round (see nextSeed)
+};
+
+export type SeatConfig = {
+    name: string;
+    kind?: PlayerKind;   // default "human"
+    botLevel?: BotLevel; // default "easy" for bots
 };
 
 export type NewGameOptions = {
     playerNames?: string[];
-    seed?: number;
+    seats?: SeatConfig[]; // takes precedence over playerNames
+    seed?: number | string; // text seeds are hashed (seedFromString)
     startDiscard?: boolean;
+    rules?: RuleSetOptions; // house rules; default: DEFAULT_RULESET
 };
 
+/** Table sizes the game supports */
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 7;
+
+const RECYCLE_SALT = 0x5EC7C1E;
+
+/** The player left of the dealer (next in seat order) starts the round */
+export function leaderIndex(dealerIndex: number, playerCount: number): number {
+    return (dealerIndex + 1) % playerCount;
+}
+
+/** Shuffle seed of a round: round 1 uses the game seed itself, later rounds a derived sub-seed */
+export function roundSeed(gameSeed: number, round: number): number {
+    return round === 1 ? gameSeed >>> 0 : deriveSeed(gameSeed, round);
+}
+
+/** Initial rngState for a round dealt with `shuffleSeed` */
+export function recycleSeedState(shuffleSeed: number): number {
+    return deriveSeed(shuffleSeed, RECYCLE_SALT);
+}
+
+function normalizeSeed(seed: number | string | undefined): number {
+    if (typeof seed === "string") return seedFromString(seed);
+    if (typeof seed === "number") return seed >>> 0;
+    return randomSeed();
+}
+
+function seatsOf(options?: NewGameOptions): SeatConfig[] {
+    return options?.seats ?? (options?.playerNames ?? ["Player 1", "Player 2"]).map((name) => ({ name }));
+}
+
+/**
+ * Why a game with these options could not be started, or null if it can: player count,
+ * house rules, and whether the decks hold the last round's deal. Setup screens check this
+ * before calling newGame, which throws the same message.
+ */
+export function checkNewGame(options?: NewGameOptions): string | null {
+    const seats = seatsOf(options);
+    if (seats.length < MIN_PLAYERS) return `Need at least ${MIN_PLAYERS} players`;
+    if (seats.length > MAX_PLAYERS) return `At most ${MAX_PLAYERS} players can play`;
+
+    let rules: RuleSet;
+    try {
+        rules = createRuleSet(options?.rules);
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+
+    // the last round deals the biggest hands: fail now rather than mid-game
+    const deckSize = deckSizeForRules(rules);
+    const lastHandSize = getRoundRule(FiveCrownsCompat.totalRounds, rules).handSize;
+    const needed = cardsNeeded(seats.length, lastHandSize, options?.startDiscard ?? true);
+    if (deckSize < needed) {
+        return `Not enough cards for ${seats.length} players: need ${needed}, the decks have ${deckSize}`;
+    }
+    return null;
+}
+
 export function newGame(options?: NewGameOptions): GameState {
-    const round = 1;
-    const rule = getRoundRule(round);
+    const problem = checkNewGame(options);
+    if (problem) throw new Error(problem);
 
-    const names = options?.playerNames ?? ["Player 1", "Player 2"];
-    if (names.length < 2) throw new Error("Need at least 2 players");
+    const round = 1;
+    const rules = createRuleSet(options?.rules);
+    const rule = getRoundRule(round, rules);
+    const seats = seatsOf(options);
+    const deck = createDecksForRules(rules);
+    const seed = normalizeSeed(options?.seed);
+    const startDiscard = options?.startDiscard ?? true;
 
-    const deck = createDecks({
-        suits: FiveCrownsCompat.suits,
-        ranks: FiveCrownsCompat.ranks,
-        decks: FiveCrownsCompat.decks,
-        jokersPerDeck: FiveCrownsCompat.jokersPerDeck,
-    });
+    const shuffled = shuffle(deck, mulberry32(seed));
 
-    const rng = typeof options?.seed === "number" ? mulberry32(options.seed) : defaultRng;
-    const shuffled = shuffle(deck, rng);
+    const { hands, drawPile, discardPile } = deal(shuffled, seats.length, rule.handSize, { startDiscard });
 
-    const { hands, drawPile, discardPile } = deal(shuffled, names.length, rule.handSize, {
-        startDiscard: options?.startDiscard ?? true,
+    const players: PlayerState[] = seats.map((seat, i) => {
+        const kind = seat.kind ?? "human";
+        return {
+            id: `P${i + 1}`,
+            name: seat.name,
+            kind,
+            ...(kind === "bot" ? { botLevel: seat.botLevel ?? "easy" } : {}),
+            hand: hands[i],
+            score: 0,
+        };
     });
 
-    const players: PlayerState[] = names.map((name, i) => ({
-        id: `P${i + 1}`,
-        name,
-        hand: hands[i],
-        score: 0,
-    }));
-
     return {
         round,
         rule,
         players,
-        currentPlayerIndex: 0,
+        currentPlayerIndex: leaderIndex(seats.length - 1, seats.length),
+        dealerIndex: seats.length - 1, // so the first seat starts round 1
         drawPile,
         discardPile,
         melds: [],
         selectedCardIds: [],
         turnPhase: "NEED_DRAW",
+        history: { undo: [], redo: [] },
+        turnsPlayed: 0,
         status: "PLAYING",
         message: "Game started. Draw 1 card to begin your turn.",
+        roundResults: [],
+        gameScores: players.map((p) => createGameScore(p.id)),
+        setup: { seats, seed, startDiscard, rules },
+        log: [],
+        rngState: recycleSeedState(seed),
     };
 }
 
 export function endRound(state: GameState): GameState {
-    const updatedPlayers = state.players.map((p) => {
-        const penalty = scoreHand(p.hand.map((c) => c.rank), state.rule);
-        return { ...p, score: p.score + penalty };
-    });
+    const result = createRoundResult(
+        state.players.map((p) => ({ playerId: p.id, hand: p.hand })),
+        state.rule,
+        state.outTriggeredByPlayerId
+    );
+    const gameScores = state.gameScores.map((g, i) => addRoundScore(g, result.scores[i].points));
+    const updatedPlayers = state.players.map((p, i) => ({ ...p, score: gameScores[i].totalScore }));
 
     const isGameOver = state.round >= FiveCrownsCompat.totalRounds;
 
     return {
         ...state,
         players: updatedPlayers,
+        roundResults: [...state.roundResults, result],
+        gameScores,
         selectedCardIds: [],
         turnPhase: "NEED_DRAW",
         status: isGameOver ? "GAME_OVER" : "ROUND_END",
         message: isGameOver
-            ? `Game over. Winner: ${computeWinnerName(updatedPlayers)}`
+            ? `Game over. ${describeWinners(updatedPlayers, gameScores)}`
             : `Round ${state.round} ended.`,
         outTriggeredByPlayerId: undefined,
         turnsRemainingAfterOut: undefined,
     };
 }
 
-function computeWinnerName(players: PlayerState[]): string {
-    const sorted = [...players].sort((a, b) => a.score - b.score);
-    return sorted[0]?.name ?? "Unknown";
+function describeWinners(players: PlayerState[], gameScores: GameScore[]): string {
+    const names = determineGameWinners(gameScores).map((id) => players.find((p) => p.id === id)?.name ?? id);
+    if (names.length === 0) return "Winner: Unknown";
+    return names.length === 1 ? `Winner: ${names[0]}` : `Winners (tie): ${names.join(", ")}`;
 }
 
 export function nextRound(state: GameState, options?: { seed?: number; startDiscard?: boolean }): GameState {
@@ -123,43 +259,52 @@ export function nextRound(state: GameState, options?: { seed?: number; startDisc
         return {
             ...state,
             status: "GAME_OVER",
-            message: `Game over. Winner: ${computeWinnerName(state.players)}`,
+            message: `Game over. ${describeWinners(state.players, state.gameScores)}`,
         };
     }
 
     const round = state.round + 1;
-    const rule = getRoundRule(round);
+    const rule = getRoundRule(round, state.setup.rules);
 
-    const deck = createDecks({
-        suits: FiveCrownsCompat.suits,
-        ranks: FiveCrownsCompat.ranks,
-        decks: FiveCrownsCompat.decks,
-        jokersPerDeck: FiveCrownsCompat.jokersPerDeck,
-    });
+    const deck = createDecksForRules(state.setup.rules);
 
-    const rng = typeof options?.seed === "number" ? mulberry32(options.seed) : defaultRng;
-    const shuffled = shuffle(deck, rng);
+    const seed = options?.seed ?? roundSeed(state.setup.seed, round);
+    const shuffled = shuffle(deck, mulberry32(seed));
 
     const { hands, drawPile, discardPile } = deal(shuffled, state.players.length, rule.handSize, {
-        startDiscard: options?.startDiscard ?? true,
+        startDiscard: options?.startDiscard ?? state.setup.startDiscard,
     });
 
-    const players = state.players.map((p, i) => ({ ...p, hand: hands[i] }));
+    // The deal passes to the left and starts with the new leader, like at a real table.
+    // Without rotation (games saved before it) the seat whose turn ended the round starts the next one:
+    // whoever made the last discard (or, with END_ROUND, the player who found the draw pile empty).
+    const count = state.players.length;
+    const rotate = state.setup.rules.rotateDealer;
+    const dealerIndex = rotate ? (state.dealerIndex + 1) % count : (state.currentPlayerIndex + count - 1) % count;
+    const currentPlayerIndex = leaderIndex(dealerIndex, count);
+    const firstHand = rotate ? currentPlayerIndex : 0;
+    const players = state.players.map((p, i) => ({ ...p, hand: hands[(i - firstHand + count) % count] }));
 
     return {
         ...state,
         round,
         rule,
         players,
+        currentPlayerIndex,
+        dealerIndex,
         drawPile,
         discardPile,
         melds: [],
         selectedCardIds: [],
         turnPhase: "NEED_DRAW",
+        history: { undo: [], redo: [] },
         status: "PLAYING",
+        rngState: recycleSeedState(seed),
         outTriggeredByPlayerId: undefined,
         turnsRemainingAfterOut: undefined,
-        message: `Round ${round} started. Wild Rank: ${rule.wildRank}`,
+        message:
+            `Round ${round} started. Wild Rank: ${rule.wildRank}. ` +
+            `${state.players[dealerIndex].name} deals, ${state.players[currentPlayerIndex].name} starts.`,
     };
 }
 
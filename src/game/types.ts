@@ -4,6 +4,15 @@ export type Suit = "STARS" | "HEARTS" | "CLUBS" | "SPADES" | "DIAMONDS";
 
 export type MeldType = "BOOK" | "RUN";
 
+/**
+ * What every card of a meld stands for (wilds included), fixed when the cards are laid down.
+ * - BOOK: the book rank (null while the book is wilds only)
+ * - RUN: ranks[i] is the rank of cards[i]; cards are kept in rank order. suit is null for all-wild runs
+ */
+export type MeldAssignment =
+  | { type: "BOOK"; rank: Rank | null }
+  | { type: "RUN"; suit: Suit | null; ranks: Rank[] };
+
 /**
  * Rank encoding:
  * - 0: Joker
@@ -18,8 +27,34 @@ export type Card = {
   deckIndex: number; // 1..N
 };
 
+export type ScoringConfig = {
+  jokerPenalty: number;
+  wildPenalty: number;  // round wild rank
+};
+
+/** What DRAW_DECK does once the draw pile is empty and the discard pile cannot refill it */
+export type DrawPileExhaustion = "NEW_DECK" | "END_ROUND";
+
+/**
+ * House rules, fixed for a whole game (GameState.setup.rules).
+ * DEFAULT_RULESET (rules.ts) is the Five Crowns compatible baseline.
+ */
+export type RuleSet = {
+  decks: number;                       // 2
+  jokersPerDeck: number;               // 3
+  minMeldSize: number;                 // 3
+  allowAllWildMelds: boolean;          // a meld made only of wilds/Jokers
+  allowLayoffBeforeFirstMeld: boolean; // false: lay down a meld of your own first
+  goOutRequiresDiscard: boolean;       // false: melding / laying off your last card goes out
+  allowWildSwap: boolean;              // swap a natural from hand for the wild it stands for in a meld
+  drawPileExhausted: DrawPileExhaustion; // NEW_DECK: shuffle in another deck; END_ROUND: nobody out, all hands score
+  rotateDealer: boolean;               // the deal passes left each round; false: whoever made the last discard starts the next round
+  penalties: ScoringConfig;
+};
+
 export type RoundRule = {
   round: number;      // 1..11
   handSize: number;   // 3..13
   wildRank: Rank;     // 3..13 (never Joker)
+  ruleSet: RuleSet;   // house rules of the game this round belongs to
 };
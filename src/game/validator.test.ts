@@ -1,7 +1,8 @@
 import { describe, it, expect } from "vitest";
 import type { Card, Suit, Rank, RoundRule } from "./types";
-import { getRoundRule } from "./rules";
-import { validateMeld, validateLayoff } from "./validator";
+import { createRuleSet, getRoundRule } from "./rules";
+import type { ValidationResult } from "./validator";
+import { resolveMeld, resolveRun, resolveWildSwap, validateMeld, validateLayoff } from "./validator";
 
 /**
  * Test helpers
@@ -15,6 +16,9 @@ const c = (suit: Suit, rank: Rank, id?: string): Card => ({
 
 const rule = (round: number): RoundRule => getRoundRule(round);
 
+/** Code + offending card ids of a failed validation (null if it passed) */
+const failure = (res: ValidationResult) => (res.ok ? null : { code: res.code, cardIds: res.cardIds });
+
 describe("validator.validateMeld", () => {
     it("BOOK success: three of a kind", () => {
         const r = rule(1); // wild=3 (but we won't use wild here)
@@ -25,9 +29,9 @@ describe("validator.validateMeld", () => {
 
     it("BOOK failure: mixed ranks", () => {
         const r = rule(1);
-        const cards = [c("HEARTS", 5), c("CLUBS", 6), c("SPADES", 5)];
+        const cards = [c("HEARTS", 5), c("CLUBS", 6, "odd"), c("SPADES", 5)];
         const res = validateMeld(cards, "BOOK", r);
-        expect(res.ok).toBe(false);
+        expect(failure(res)).toEqual({ code: "MIXED_RANK", cardIds: ["odd"] });
     });
 
     it("RUN success: same suit consecutive", () => {
@@ -39,16 +43,31 @@ describe("validator.validateMeld", () => {
 
     it("RUN failure: different suits", () => {
         const r = rule(1);
-        const cards = [c("HEARTS", 5), c("CLUBS", 6), c("HEARTS", 7)];
+        const cards = [c("HEARTS", 5), c("CLUBS", 6, "odd"), c("HEARTS", 7)];
         const res = validateMeld(cards, "RUN", r);
-        expect(res.ok).toBe(false);
+        expect(failure(res)).toEqual({ code: "MIXED_SUIT", cardIds: ["odd"] });
     });
 
     it("RUN failure: non-consecutive ranks", () => {
         const r = rule(1);
-        const cards = [c("HEARTS", 5), c("HEARTS", 7), c("HEARTS", 8)];
+        const cards = [c("HEARTS", 5, "lo"), c("HEARTS", 7), c("HEARTS", 8, "hi")];
         const res = validateMeld(cards, "RUN", r);
+        expect(failure(res)).toEqual({ code: "INSUFFICIENT_WILDS", cardIds: ["lo", "hi"] });
+    });
+
+    it("RUN failure: duplicate ranks name both cards", () => {
+        const r = rule(1);
+        const cards = [c("HEARTS", 5, "a"), c("HEARTS", 6), c("HEARTS", 5, "b")];
+        expect(failure(validateMeld(cards, "RUN", r))).toEqual({ code: "DUPLICATE_RANK", cardIds: ["a", "b"] });
+    });
+
+    it("too few cards carries the minimum for localized messages", () => {
+        const res = validateMeld([c("HEARTS", 5)], "BOOK", rule(1));
         expect(res.ok).toBe(false);
+        if (!res.ok) {
+            expect(res.code).toBe("TOO_FEW_CARDS");
+            expect(res.params).toEqual({ min: 3 });
+        }
     });
 
     it("RUN success: wildcard fills a gap (e.g., 5, WILD, 7)", () => {
@@ -77,14 +96,14 @@ describe("validator.validateLayoff", () => {
     it("Layoff failure: invalid card for RUN (wrong suit / breaks sequence)", () => {
         const r = rule(1);
         const meldCards = [c("HEARTS", 5), c("HEARTS", 6), c("HEARTS", 7)];
-        const addedCards = [c("CLUBS", 9)];
+        const addedCards = [c("CLUBS", 9, "x")];
         const res = validateLayoff({
             meldType: "RUN",
             meldCards,
             addedCards,
             rule: r,
         });
-        expect(res.ok).toBe(false);
+        expect(failure(res)).toEqual({ code: "MIXED_SUIT", cardIds: ["x"] });
     });
 
     it("Layoff success: add to BOOK (add another 5)", () => {
@@ -100,3 +119,110 @@ describe("validator.validateLayoff", () => {
         expect(res.ok).toBe(true);
     });
 });
+
+describe("validator with house rules (RuleSet)", () => {
+    it("rejects all-wild melds when allowAllWildMelds is off", () => {
+        const wilds = [c("HEARTS", 0), c("CLUBS", 3), c("SPADES", 3)]; // round 1: wild=3
+        expect(validateMeld(wilds, "BOOK", rule(1)).ok).toBe(true);
+
+        const strict = getRoundRule(1, createRuleSet({ allowAllWildMelds: false }));
+        expect(validateMeld(wilds, "BOOK", strict).ok).toBe(false);
+        expect(validateMeld(wilds, "RUN", strict).ok).toBe(false);
+        expect(validateMeld([...wilds.slice(1), c("HEARTS", 9)], "BOOK", strict).ok).toBe(true);
+    });
+
+    it("applies minMeldSize to melds and lay offs", () => {
+        expect(() => createRuleSet({ minMeldSize: 4 })).toThrow(/round 1/);
+        const r = getRoundRule(1, createRuleSet({ minMeldSize: 4, goOutRequiresDiscard: false }));
+        const three = [c("HEARTS", 5), c("CLUBS", 5), c("SPADES", 5)];
+        expect(validateMeld(three, "BOOK", r).ok).toBe(false);
+        expect(validateMeld([...three, c("STARS", 5)], "BOOK", r).ok).toBe(true);
+        expect(validateLayoff({ meldType: "BOOK", meldCards: three, addedCards: [c("STARS", 5)], rule: r }).ok).toBe(true);
+    });
+});
+
+describe("validator.resolveRun", () => {
+    const placed = (res: ReturnType<typeof resolveRun>) =>
+        res.ok ? res.slots.map((s) => `${s.rank}:${s.card.id}`) : res.reason;
+
+    it("places wilds in gaps, then above the run", () => {
+        const r = rule(1); // wild=3
+        const res = resolveRun([c("HEARTS", 5, "a"), c("HEARTS", 7, "b"), c("CLUBS", 3, "w1"), c("STARS", 0, "w2")], r);
+        expect(placed(res)).toEqual(["5:a", "6:w1", "7:b", "8:w2"]);
+    });
+
+    it("extends downward when the run already reaches K", () => {
+        const r = rule(1); // wild=3
+        const res = resolveRun([c("HEARTS", 12, "q"), c("HEARTS", 13, "k"), c("STARS", 0, "w1"), c("CLUBS", 3, "w2"), c("SPADES", 0, "w3")], r);
+        expect(placed(res)).toEqual(["9:w1", "10:w2", "11:w3", "12:q", "13:k"]);
+    });
+
+    it("rejects runs longer than 3..K", () => {
+        const r = rule(1); // wild=3
+        const naturals = ([4, 5, 6, 7, 8, 9, 10, 11, 12, 13] as Rank[]).map((rank) => c("HEARTS", rank));
+        expect(resolveRun([...naturals, c("STARS", 0)], r).ok).toBe(true); // 3..K: the Joker stands for 3
+        expect(resolveRun([...naturals, c("STARS", 0), c("CLUBS", 0)], r).ok).toBe(false);
+        expect(validateMeld([...naturals, c("STARS", 0), c("CLUBS", 0)], "RUN", r).ok).toBe(false);
+    });
+
+    it("validateMeld reports the resolved run", () => {
+        const r = rule(1);
+        const res = validateMeld([c("HEARTS", 9, "a"), c("STARS", 0, "w"), c("HEARTS", 11, "b")], "RUN", r);
+        expect(res.ok && res.run?.map((s) => s.rank)).toEqual([9, 10, 11]);
+    });
+});
+
+describe("validator.resolveMeld", () => {
+    it("orders a RUN by rank and records what each wild stands for", () => {
+        const r = rule(1); // wild=3
+        const res = resolveMeld([c("HEARTS", 7, "b"), c("STARS", 0, "w"), c("HEARTS", 5, "a")], "RUN", r);
+        expect(res.ok).toBe(true);
+        if (!res.ok) return;
+        expect(res.cards.map((x) => x.id)).toEqual(["a", "w", "b"]);
+        expect(res.assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7] });
+    });
+
+    it("records the book rank (null while a book is wilds only)", () => {
+        const r = rule(1);
+        const book = resolveMeld([c("STARS", 0), c("HEARTS", 9), c("CLUBS", 9)], "BOOK", r);
+        expect(book.ok && book.assignment).toEqual({ type: "BOOK", rank: 9 });
+
+        const wilds = resolveMeld([c("STARS", 0), c("HEARTS", 3), c("CLUBS", 3)], "BOOK", r);
+        expect(wilds.ok && wilds.assignment).toEqual({ type: "BOOK", rank: null });
+    });
+
+    it("keeps existing wilds where they stand on a lay off", () => {
+        const r = rule(1); // wild=3
+        const meld = resolveMeld([c("HEARTS", 5, "a"), c("STARS", 0, "w"), c("HEARTS", 7, "b")], "RUN", r);
+        if (!meld.ok) throw new Error(meld.reason);
+
+        // the Joker is pinned at 6, so a natural 6 has nowhere to go
+        const six = { meldType: "RUN" as const, meldCards: meld.cards, addedCards: [c("HEARTS", 6)], rule: r };
+        expect(validateLayoff(six).ok).toBe(true);
+        expect(failure(validateLayoff({ ...six, assignment: meld.assignment }))?.code).toBe("DUPLICATE_RANK");
+
+        const eight = resolveMeld([...meld.cards, c("HEARTS", 8, "e"), c("CLUBS", 3, "w2")], "RUN", r, meld);
+        expect(eight.ok && eight.assignment).toEqual({ type: "RUN", suit: "HEARTS", ranks: [5, 6, 7, 8, 9] });
+        expect(eight.ok && eight.cards.map((x) => x.id)).toEqual(["a", "w", "b", "e", "w2"]);
+    });
+});
+
+describe("validator.resolveWildSwap", () => {
+    it("lets any natural claim an all-wild BOOK, but only the book rank otherwise", () => {
+        const r = rule(1); // wild=3
+        const wilds = resolveMeld([c("STARS", 0, "j"), c("HEARTS", 3, "w1"), c("CLUBS", 3, "w2")], "BOOK", r);
+        if (!wilds.ok) throw new Error(wilds.reason);
+        const swap = { meldType: "BOOK" as const, meldCards: wilds.cards, assignment: wilds.assignment, wildCardId: "j", rule: r };
+
+        const claimed = resolveWildSwap({ ...swap, card: c("SPADES", 9, "n9") });
+        expect(claimed.ok && claimed.cards.map((x) => x.id)).toEqual(["n9", "w1", "w2"]);
+        expect(claimed.ok && claimed.assignment).toEqual({ type: "BOOK", rank: 9 });
+
+        if (!claimed.ok) return;
+        const again = { ...swap, meldCards: claimed.cards, assignment: claimed.assignment, wildCardId: "w1" };
+        const wrong = resolveWildSwap({ ...again, card: c("HEARTS", 10, "n10") });
+        expect(!wrong.ok && [wrong.code, wrong.cardIds, wrong.params]).toEqual(["WRONG_RANK", ["n10"], { rank: 9 }]);
+        expect(resolveWildSwap({ ...again, card: c("HEARTS", 9) }).ok).toBe(true);
+        expect(failure(resolveWildSwap({ ...again, wildCardId: "n9", card: c("HEARTS", 9) }))?.code).toBe("NOT_A_WILD");
+    });
+});
@@ -1,88 +1,273 @@
 // src/game/validator.ts
-import type { Card, MeldType, RoundRule, Suit } from "./types";
-import { isWildRank } from "./rules";
+import type { Card, MeldAssignment, MeldType, Rank, RoundRule } from "./types";
+import { FiveCrownsCompat, isWildRank, rankLabel } from "./rules";
 
-export type ValidationResult = { ok: true } | { ok: false; reason: string };
+export type ValidationErrorCode =
+    | "NO_CARDS"            // nothing selected to lay off
+    | "TOO_FEW_CARDS"       // below RuleSet.minMeldSize
+    | "NO_NATURAL"          // all wilds, but RuleSet.allowAllWildMelds is off
+    | "MIXED_RANK"          // BOOK naturals of different ranks
+    | "MIXED_SUIT"          // RUN naturals of different suits
+    | "DUPLICATE_RANK"      // two RUN cards on the same position
+    | "INSUFFICIENT_WILDS"  // RUN gaps that the wilds cannot fill
+    | "OUT_OF_RANGE"        // RUN longer than 3..K
+    | "WILD_NOT_FOUND"      // wild swap: the wild is not in the meld
+    | "NOT_A_WILD"          // wild swap: the meld card is a natural
+    | "NATURAL_REQUIRED"    // wild swap: a wild cannot replace a wild
+    | "WRONG_RANK";         // wild swap: not the rank the wild stands for
+
+/** Values interpolated into the message of a code */
+export type ValidationParams = { min?: number; rank?: Rank };
+
+/**
+ * A rule violation: `cardIds` are the cards that break the meld (for highlighting),
+ * `reason` the English message (VALIDATION_MESSAGES). UIs may localize from `code` + `params`.
+ */
+export type ValidationError = {
+    code: ValidationErrorCode;
+    reason: string;
+    cardIds: string[];
+    params?: ValidationParams;
+};
+
+/** `run` is set for valid RUNs: the resolved placement of every card (see resolveRun) */
+export type ValidationResult = { ok: true; run?: RunSlot[] } | ({ ok: false } & ValidationError);
+
+/** Cards of a meld in table order, plus what each one stands for */
+export type ResolvedMeld = { cards: Card[]; assignment: MeldAssignment };
+
+export type MeldResolution = ({ ok: true } & ResolvedMeld) | ({ ok: false } & ValidationError);
+
+export const VALIDATION_MESSAGES: Record<ValidationErrorCode, (params: ValidationParams) => string> = {
+    NO_CARDS: () => "Must select cards to layoff",
+    TOO_FEW_CARDS: (p) => `Must select at least ${p.min} cards`,
+    NO_NATURAL: () => "Must contain at least one natural card",
+    MIXED_RANK: () => "Must share the same rank",
+    MIXED_SUIT: () => "Must be a single suit",
+    DUPLICATE_RANK: () => "Must not contain duplicate ranks",
+    INSUFFICIENT_WILDS: () => "Must have enough wilds to fill gaps",
+    OUT_OF_RANGE: () =>
+        `Must fit within ${rankLabel(FiveCrownsCompat.ranks[0])}..${rankLabel(FiveCrownsCompat.ranks[FiveCrownsCompat.ranks.length - 1])}`,
+    WILD_NOT_FOUND: () => "Wild not found in meld",
+    NOT_A_WILD: () => "Can only swap out a wild",
+    NATURAL_REQUIRED: () => "Must swap in a natural card",
+    WRONG_RANK: (p) => `Wild stands for ${p.rank === undefined ? "another rank" : rankLabel(p.rank)}`,
+};
+
+function invalid(code: ValidationErrorCode, cards: Card[], params?: ValidationParams): { ok: false } & ValidationError {
+    return {
+        ok: false,
+        code,
+        reason: VALIDATION_MESSAGES[code](params ?? {}),
+        cardIds: cards.map((c) => c.id),
+        ...(params ? { params } : {}),
+    };
+}
+
+/** Cards not sharing the most common key: the odd ones out of a BOOK rank / RUN suit */
+function outliers<K>(cards: Card[], key: (c: Card) => K): Card[] {
+    const counts = new Map<K, number>();
+    for (const c of cards) counts.set(key(c), (counts.get(key(c)) ?? 0) + 1);
+    let common = key(cards[0]);
+    for (const [k, n] of counts) if (n > (counts.get(common) ?? 0)) common = k;
+    return cards.filter((c) => key(c) !== common);
+}
+
+function checkMeldSize(cards: Card[], rule: RoundRule): ValidationResult {
+    const minSize = rule.ruleSet.minMeldSize;
+    if (cards.length < minSize) return invalid("TOO_FEW_CARDS", cards, { min: minSize });
+    if (!rule.ruleSet.allowAllWildMelds && cards.every((c) => isWildRank(c.rank, rule))) {
+        return invalid("NO_NATURAL", cards);
+    }
+    return { ok: true };
+}
 
 export function validateMeld(cards: Card[], type: MeldType, rule: RoundRule): ValidationResult {
-    if (cards.length < 3) return { ok: false, reason: "Must select at least 3 cards" };
+    const size = checkMeldSize(cards, rule);
+    if (!size.ok) return size;
 
     if (type === "BOOK") return validateBook(cards, rule);
     return validateRun(cards, rule);
 }
 
-function validateBook(cards: Card[], rule: RoundRule): ValidationResult {
-    const nonWild = cards.filter((c) => !isWildRank(c.rank, rule));
-    if (nonWild.length === 0) {
-        // all wilds: allow as BOOK (common house rule); if you want stricter, reject here
-        return { ok: true };
+/** Rank that the card at `index` of a meld stands for (null for a wilds-only BOOK) */
+export function assignedRank(assignment: MeldAssignment, index: number): Rank | null {
+    return assignment.type === "BOOK" ? assignment.rank : (assignment.ranks[index] ?? null);
+}
+
+/**
+ * Validate a meld and fix what its wilds stand for.
+ * With `existing` (a lay off), the cards already on the table keep their assignment:
+ * added cards may only take free positions, e.g. a natural 6 cannot replace a wild standing for 6.
+ */
+export function resolveMeld(
+    cards: Card[],
+    type: MeldType,
+    rule: RoundRule,
+    existing?: ResolvedMeld
+): MeldResolution {
+    const size = checkMeldSize(cards, rule);
+    if (!size.ok) return size;
+
+    if (type === "BOOK") {
+        const res = validateBook(cards, rule);
+        if (!res.ok) return res;
+        const natural = cards.find((c) => !isWildRank(c.rank, rule));
+        return { ok: true, cards, assignment: { type: "BOOK", rank: natural?.rank ?? null } };
     }
-    const target = nonWild[0].rank;
-    for (const c of nonWild) {
-        if (c.rank !== target) return { ok: false, reason: "Must share the same rank" };
+
+    const pinned = new Map<string, Rank>();
+    if (existing?.assignment.type === "RUN") {
+        const { ranks } = existing.assignment;
+        existing.cards.forEach((c, i) => pinned.set(c.id, ranks[i]));
     }
+    const res = resolveRun(cards, rule, pinned);
+    if (!res.ok) return res;
+
+    const natural = cards.find((c) => !isWildRank(c.rank, rule));
+    return {
+        ok: true,
+        cards: res.slots.map((s) => s.card),
+        assignment: { type: "RUN", suit: natural?.suit ?? null, ranks: res.slots.map((s) => s.rank) },
+    };
+}
+
+function validateBook(cards: Card[], rule: RoundRule): ValidationResult {
+    const nonWild = cards.filter((c) => !isWildRank(c.rank, rule));
+    if (nonWild.length === 0) return { ok: true }; // all wilds (RuleSet.allowAllWildMelds)
+    const odd = outliers(nonWild, (c) => c.rank);
+    if (odd.length > 0) return invalid("MIXED_RANK", odd);
     return { ok: true };
 }
 
+/** One position of a resolved RUN: the rank it stands for, and the card filling it */
+export type RunSlot = { rank: Rank; card: Card };
+
+export type RunResolution = { ok: true; slots: RunSlot[] } | ({ ok: false } & ValidationError);
+
+const RUN_RANKS = FiveCrownsCompat.ranks; // 3..K, in order
+
 /**
  * RUN rules (Five Crowns style):
  * - Same suit for all NON-wild cards
- * - Sequence length >=3
- * - Wilds can fill gaps
  * - No duplicate ranks among non-wilds (within same suit)
+ * - Wilds fill the gaps between naturals; spare wilds extend the run upward, then downward
+ * - Every position must be a real rank (3..K): a run holds at most 11 cards
+ *
+ * Returns the concrete placement (slots sorted by rank), so callers know which rank each wild stands for.
+ * `pinned` (card id → rank) fixes cards that already have a position, e.g. wilds of a meld on the table.
  */
-function validateRun(cards: Card[], rule: RoundRule): ValidationResult {
+export function resolveRun(
+    cards: Card[],
+    rule: RoundRule,
+    pinned: ReadonlyMap<string, Rank> = new Map()
+): RunResolution {
     const nonWild = cards.filter((c) => !isWildRank(c.rank, rule));
-    if (nonWild.length === 0) {
-        // all wilds: allow as RUN (house-friendly). If you want stricter, reject.
-        return { ok: true };
-    }
+    const wilds = cards.filter((c) => isWildRank(c.rank, rule) && !pinned.has(c.id));
+
+    if (cards.length > RUN_RANKS.length) return invalid("OUT_OF_RANGE", wilds.length > 0 ? wilds : cards);
 
     // Suit must match among non-wilds
-    const suit: Suit = nonWild[0].suit;
-    for (const c of nonWild) {
-        if (c.suit !== suit) return { ok: false, reason: "Must be a single suit" };
+    if (nonWild.length > 0) {
+        const odd = outliers(nonWild, (c) => c.suit);
+        if (odd.length > 0) return invalid("MIXED_SUIT", odd);
     }
 
-    // Sort non-wild ranks
-    const ranks = nonWild.map((c) => c.rank).sort((a, b) => (a as number) - (b as number));
-    // No duplicates
-    for (let i = 1; i < ranks.length; i++) {
-        if (ranks[i] === ranks[i - 1]) return { ok: false, reason: "Must not contain duplicate ranks" };
+    // Fixed positions: naturals at their own rank, pinned wilds where they already stand. No duplicates.
+    const naturals: RunSlot[] = cards
+        .filter((c) => !wilds.includes(c))
+        .map((card) => ({ rank: pinned.get(card.id) ?? card.rank, card }))
+        .sort((a, b) => (a.rank as number) - (b.rank as number));
+    for (let i = 1; i < naturals.length; i++) {
+        if (naturals[i].rank === naturals[i - 1].rank) {
+            const rank = naturals[i].rank;
+            return invalid("DUPLICATE_RANK", naturals.filter((s) => s.rank === rank).map((s) => s.card));
+        }
     }
 
-    const wildCount = cards.length - nonWild.length;
-
-    // Check if wilds can fill the gaps to make continuous sequence
-    // We compute required wilds for gaps between sorted ranks:
-    let needed = 0;
-    for (let i = 1; i < ranks.length; i++) {
-        const prev = ranks[i - 1] as number;
-        const cur = ranks[i] as number;
-        const gap = cur - prev - 1;
-        if (gap < 0) return { ok: false, reason: "Must have valid rank order" };
-        needed += gap;
+    // Span covered by the run: naturals from lowest to highest, widened by spare wilds (up first, then down)
+    const lowIndex = naturals.length > 0 ? RUN_RANKS.indexOf(naturals[0].rank) : 0;
+    const highIndex = naturals.length > 0 ? RUN_RANKS.indexOf(naturals[naturals.length - 1].rank) : -1;
+    const gaps = highIndex - lowIndex + 1 - naturals.length;
+    if (gaps > wilds.length) {
+        return invalid("INSUFFICIENT_WILDS", [naturals[0].card, naturals[naturals.length - 1].card]);
     }
 
-    if (needed > wildCount) {
-        return { ok: false, reason: "Must have enough wilds to fill gaps" };
+    const spare = wilds.length - gaps;
+    const up = Math.min(spare, RUN_RANKS.length - 1 - highIndex);
+    const down = spare - up;
+    const start = lowIndex - down;
+    if (start < 0) return invalid("OUT_OF_RANGE", wilds);
+
+    const byRank = new Map(naturals.map((s) => [s.rank, s.card]));
+    const wildQueue = [...wilds];
+    const slots: RunSlot[] = [];
+    for (let i = start; i < start + cards.length; i++) {
+        const rank = RUN_RANKS[i];
+        const card = byRank.get(rank) ?? wildQueue.shift();
+        if (!card) return invalid("INSUFFICIENT_WILDS", naturals.map((s) => s.card));
+        slots.push({ rank, card });
     }
+    return { ok: true, slots };
+}
 
-    // Also ensure length>=3 already guaranteed. No need to bound endpoints.
-    return { ok: true };
+function validateRun(cards: Card[], rule: RoundRule): ValidationResult {
+    const res = resolveRun(cards, rule);
+    return res.ok ? { ok: true, run: res.slots } : res;
 }
 
 /**
  * Validate laying off cards onto an existing meld.
- * Re-validates the combined meld (existing + added cards).
+ * Re-validates the combined meld (existing + added cards); with `assignment`,
+ * the existing cards keep the positions they already stand for (see resolveMeld).
  */
 export function validateLayoff(params: {
     meldType: MeldType;
     meldCards: Card[];
     addedCards: Card[];
     rule: RoundRule;
+    assignment?: MeldAssignment;
 }): ValidationResult {
-    const { meldType, meldCards, addedCards, rule } = params;
-    if (addedCards.length === 0) return { ok: false, reason: "Must select cards to layoff" };
-    return validateMeld([...meldCards, ...addedCards], meldType, rule);
+    const { meldType, meldCards, addedCards, rule, assignment } = params;
+    if (addedCards.length === 0) return invalid("NO_CARDS", []);
+    if (!assignment) return validateMeld([...meldCards, ...addedCards], meldType, rule);
+
+    const res = resolveMeld([...meldCards, ...addedCards], meldType, rule, { cards: meldCards, assignment });
+    return res.ok ? { ok: true } : res;
+}
+
+/**
+ * Validate swapping a natural card from hand for a wild in a meld on the table (RuleSet.allowWildSwap).
+ * The natural must be exactly what the wild stands for. The rest of the meld stays where it is,
+ * so the swap is checked as a lay off of the natural into the wild's freed position.
+ * On success the natural takes the wild's place in the meld.
+ */
+export function resolveWildSwap(params: {
+    meldType: MeldType;
+    meldCards: Card[];
+    assignment: MeldAssignment;
+    wildCardId: string;
+    card: Card;
+    rule: RoundRule;
+}): MeldResolution {
+    const { meldType, meldCards, assignment, wildCardId, card, rule } = params;
+    const index = meldCards.findIndex((c) => c.id === wildCardId);
+    if (index < 0) return invalid("WILD_NOT_FOUND", []);
+    if (!isWildRank(meldCards[index].rank, rule)) return invalid("NOT_A_WILD", [meldCards[index]]);
+    if (isWildRank(card.rank, rule)) return invalid("NATURAL_REQUIRED", [card]);
+
+    const standsFor = assignedRank(assignment, index);
+    if (standsFor !== null && card.rank !== standsFor) return invalid("WRONG_RANK", [card], { rank: standsFor });
+
+    const rest = meldCards.filter((_, i) => i !== index);
+    const restAssignment: MeldAssignment =
+        assignment.type === "RUN" ? { ...assignment, ranks: assignment.ranks.filter((_, i) => i !== index) } : assignment;
+    const res = validateLayoff({ meldType, meldCards: rest, addedCards: [card], rule, assignment: restAssignment });
+    if (!res.ok) return res;
+
+    return {
+        ok: true,
+        cards: meldCards.map((c, i) => (i === index ? card : c)),
+        assignment: assignment.type === "RUN" ? { ...assignment, suit: card.suit } : { type: "BOOK", rank: card.rank },
+    };
 }
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import type { Card, Suit, Rank } from "./types";
+import type { GameState } from "./state";
+import { newGame } from "./state";
+import { applyAction } from "./engine";
+import { spectatorView, viewFor } from "./view";
+
+const c = (suit: Suit, rank: Rank, id: string): Card => ({ id, suit, rank, deckIndex: 1 });
+
+const expectOk = (res: ReturnType<typeof applyAction>): GameState => {
+    if (!res.ok) throw new Error(`expected ok, got ${res.error.code}`);
+    return res.value;
+};
+
+const twoPlayers = () => newGame({ playerNames: ["Ann", "Bob"], seed: 5, startDiscard: true });
+
+/** Each turn: draw from the deck, discard the first card in hand */
+const playTurns = (state: GameState, turns: number): GameState => {
+    for (let i = 0; i < turns; i++) {
+        state = expectOk(applyAction(state, { type: "DRAW_DECK" }));
+        const hand = state.players[state.currentPlayerIndex].hand;
+        state = expectOk(applyAction(state, { type: "DISCARD", cardId: hand[0].id }));
+    }
+    return state;
+};
+
+describe("view.viewFor", () => {
+    it("shows the viewer's own hand and only counts for the others", () => {
+        const state = twoPlayers();
+        const view = viewFor(state, "P2");
+
+        expect(view.viewerId).toBe("P2");
+        expect(view.hand).toEqual(state.players[1].hand);
+        expect(view.players.map((p) => p.handCount)).toEqual(state.players.map((p) => p.hand.length));
+        expect(view.players[0]).not.toHaveProperty("hand");
+        expect(JSON.stringify(view)).not.toContain(state.players[0].hand[0].id);
+    });
+
+    it("hides the draw pile and every seed until the game is over", () => {
+        const state = twoPlayers();
+        const view = viewFor(state, "P1");
+
+        expect(view.drawPileCount).toBe(state.drawPile.length);
+        expect(view).not.toHaveProperty("drawPile");
+        expect(view).not.toHaveProperty("rngState");
+        expect(view.discardPile).toEqual(state.discardPile);
+        expect(view.setup.seed).toBeNull();
+        expect(view.log.every((e) => e.seed === undefined)).toBe(true);
+
+        const over = viewFor({ ...state, status: "GAME_OVER" }, "P1");
+        expect(over.setup.seed).toBe(state.setup.seed);
+        expect(over.log).toEqual(state.log);
+    });
+
+    it("keeps undo snapshots out of the view and the selection private to the current player", () => {
+        const drawn = expectOk(applyAction(twoPlayers(), { type: "DRAW_DECK" }));
+        const hand = [c("HEARTS", 7, "h7"), c("SPADES", 7, "s7"), c("CLUBS", 7, "c7"), c("STARS", 9, "r9")];
+        const players = drawn.players.map((p, i) => (i === 0 ? { ...p, hand } : p));
+        let state = expectOk(applyAction({ ...drawn, players }, { type: "MELD", cardIds: ["h7", "s7", "c7"], meldType: "BOOK" }));
+        state = expectOk(applyAction(state, { type: "SELECT", cardIds: ["r9"] }));
+
+        const own = viewFor(state, "P1");
+        expect(own.undoCount).toBe(1);
+        expect(own.selectedCardIds).toEqual(["r9"]);
+
+        const other = viewFor(state, "P2");
+        expect(other.undoCount).toBe(1);
+        expect(other.selectedCardIds).toEqual([]);
+        expect(other).not.toHaveProperty("history");
+        expect(JSON.stringify(other)).not.toContain('"r9"');
+    });
+});
+
+describe("view.spectatorView", () => {
+    it("shows the live table with hands hidden by default", () => {
+        const state = playTurns(twoPlayers(), 2);
+        const view = spectatorView(state);
+
+        expect(view.hands).toBeNull();
+        expect(view.delayedTurns).toBe(0);
+        expect(view.players.map((p) => p.handCount)).toEqual(state.players.map((p) => p.hand.length));
+        expect(view.discardPile).toEqual(state.discardPile);
+        expect(view.setup.seed).toBeNull();
+        expect(JSON.stringify(view)).not.toContain(state.players[0].hand[0].id);
+    });
+
+    it("reveals every hand live, or as the table stood N turns ago", () => {
+        const state = playTurns(twoPlayers(), 3);
+        expect(state.turnsPlayed).toBe(3);
+
+        const live = spectatorView(state, { revealHands: true, delayTurns: 0 });
+        expect(live.hands).toEqual({ P1: state.players[0].hand, P2: state.players[1].hand });
+
+        const earlier = playTurns(twoPlayers(), 1);
+        const delayed = spectatorView(state, { revealHands: true, delayTurns: 2 });
+        expect(delayed.delayedTurns).toBe(2);
+        expect(delayed.hands).toEqual({ P1: earlier.players[0].hand, P2: earlier.players[1].hand });
+        expect(delayed.discardPile).toEqual(earlier.discardPile);
+        expect(delayed.log).toHaveLength(earlier.log.length);
+
+        // fewer turns played than the delay: the opening deal
+        const opening = twoPlayers();
+        const early = spectatorView(state, { revealHands: true, delayTurns: 10 });
+        expect(early.hands).toEqual({ P1: opening.players[0].hand, P2: opening.players[1].hand });
+    });
+
+    it("follows a game turn by turn as a fresh replay would, and can go back to an earlier state", () => {
+        const options = { revealHands: true, delayTurns: 2 };
+        const states = [twoPlayers()];
+        for (let i = 0; i < 6; i++) states.push(playTurns(states[i], 1));
+
+        // a structured clone has its own setup, so it is replayed from the deal
+        const fresh = (state: GameState) => spectatorView(structuredClone(state), options);
+        for (const state of states) expect(spectatorView(state, options)).toEqual(fresh(state));
+        expect(spectatorView(states[3], options)).toEqual(fresh(states[3]));
+    });
+
+    it("is live once the game is over, and hides hands when the log cannot be replayed", () => {
+        const state = playTurns(twoPlayers(), 2);
+        const over = spectatorView({ ...state, status: "GAME_OVER" }, { revealHands: true, delayTurns: 1 });
+        expect(over.delayedTurns).toBe(0);
+        expect(over.hands?.P1).toEqual(state.players[0].hand);
+
+        const broken = { ...state, log: [{ ...state.log[0], action: { type: "DISCARD" as const, cardId: "nope" } }, ...state.log] };
+        const fallback = spectatorView(broken, { revealHands: true, delayTurns: 1 });
+        expect(fallback.hands).toBeNull();
+        expect(fallback.delayedTurns).toBe(0);
+        expect(fallback.drawPileCount).toBe(state.drawPile.length);
+    });
+});
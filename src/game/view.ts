@@ -0,0 +1,142 @@
+// src/game/view.ts
+import type { Card } from "./types";
+import type { GameEvent, GameSetup, GameState, PlayerState } from "./state";
+import { replayEvents } from "./replay";
+
+/** A seat as the whole table sees it: how many cards the player holds, not which */
+export type SeatView = Omit<PlayerState, "hand"> & { handCount: number };
+
+/**
+ * What everyone around the table may see. Everything on the table (melds, discard pile, scores)
+ * is public; hands and the draw pile are reduced to counts, and every seed that would predict
+ * the deck (game seed, recycle stream, shuffle seeds in the log) is withheld until the game is over.
+ */
+export type TableView = Omit<GameState, "players" | "drawPile" | "history" | "setup" | "log" | "rngState"> & {
+    players: SeatView[];
+    drawPileCount: number;
+    undoCount: number; // undo/redo snapshots hold the current player's hand: only their depth is shown
+    redoCount: number;
+    setup: Omit<GameSetup, "seed"> & { seed: number | null }; // null until GAME_OVER
+    log: GameEvent[]; // without shuffle seeds until GAME_OVER
+};
+
+/** GameState as one player may see it: the table plus their own hand */
+export type PlayerView = TableView & {
+    viewerId: string;
+    hand: Card[]; // the viewer's own hand ([] if they have no seat)
+};
+
+/**
+ * How much spectators see. Revealed hands can be delayed by `delayTurns` completed turns, so
+ * nobody watching can coach a player live: the whole table is then shown as it was back then.
+ */
+export type SpectatorOptions = {
+    revealHands: boolean;
+    delayTurns: number; // only with revealHands; 0 = live
+};
+
+export const DEFAULT_SPECTATOR_OPTIONS: SpectatorOptions = { revealHands: false, delayTurns: 0 };
+
+/** The table for someone without a seat */
+export type SpectatorView = TableView & {
+    hands: Record<string, Card[]> | null; // by player id; null when hands are not revealed
+    delayedTurns: number; // how many turns behind the live game this view is
+};
+
+function seatView({ hand, ...seat }: PlayerState): SeatView {
+    return { ...seat, handCount: hand.length };
+}
+
+function withoutSeed(event: GameEvent): GameEvent {
+    const stripped = { ...event };
+    delete stripped.seed;
+    return stripped;
+}
+
+/** `viewerId` sees the selection while it is their turn; null: nobody at the table */
+function tableView(state: GameState, viewerId: string | null): TableView {
+    const { players, setup, log } = state;
+    const isOver = state.status === "GAME_OVER";
+    const isViewerTurn = viewerId !== null && players[state.currentPlayerIndex]?.id === viewerId;
+
+    // rngState is the recycle seed stream: never part of a view
+    return {
+        round: state.round,
+        rule: state.rule,
+        players: players.map(seatView),
+        currentPlayerIndex: state.currentPlayerIndex,
+        dealerIndex: state.dealerIndex,
+        drawPileCount: state.drawPile.length,
+        discardPile: state.discardPile,
+        melds: state.melds,
+        selectedCardIds: isViewerTurn ? state.selectedCardIds : [],
+        turnPhase: state.turnPhase,
+        undoCount: state.history.undo.length,
+        redoCount: state.history.redo.length,
+        turnsPlayed: state.turnsPlayed,
+        outTriggeredByPlayerId: state.outTriggeredByPlayerId,
+        turnsRemainingAfterOut: state.turnsRemainingAfterOut,
+        status: state.status,
+        message: state.message,
+        roundResults: state.roundResults,
+        gameScores: state.gameScores,
+        setup: isOver ? setup : { ...setup, seed: null },
+        log: isOver ? log : log.map(withoutSeed),
+    };
+}
+
+export function viewFor(state: GameState, playerId: string): PlayerView {
+    return {
+        ...tableView(state, playerId),
+        viewerId: playerId,
+        hand: state.players.find((p) => p.id === playerId)?.hand ?? [],
+    };
+}
+
+/** A game replayed so far: `turnEnds[t]` is the table the moment turn t ended (0: the opening deal) */
+type ReplayProgress = { events: number; lastEvent?: GameEvent; last: GameState; turnEnds: GameState[] };
+
+/**
+ * Replays by game, keyed by its setup (every state of a game shares it). Spectator views are built
+ * after every action, so each call only replays the events logged since the last one.
+ */
+const replayProgress = new WeakMap<GameSetup, ReplayProgress>();
+
+/**
+ * The game as it stood `delayTurns` turns ago, rebuilt from the action log: the moment that turn
+ * ended (the opening deal while fewer turns have been played). null if the log cannot be replayed.
+ */
+function delayedState(state: GameState, delayTurns: number): GameState | null {
+    const known = replayProgress.get(state.setup);
+    // the log only grows within a game: resume if it still starts with what was replayed
+    const resume =
+        known && known.events <= state.log.length && (known.events === 0 || state.log[known.events - 1] === known.lastEvent)
+            ? known
+            : null;
+    const replay = replayEvents(state.setup, state.log.slice(resume?.events ?? 0), resume?.last);
+    if (!replay.ok) return null;
+
+    const progress = resume ?? { events: 0, last: replay.value[0].state, turnEnds: [replay.value[0].state] };
+    for (const { state: frame } of replay.value.slice(1)) {
+        while (progress.turnEnds.length <= frame.turnsPlayed) progress.turnEnds.push(frame);
+    }
+    progress.events = state.log.length;
+    progress.lastEvent = state.log.at(-1);
+    progress.last = replay.value[replay.value.length - 1].state;
+    replayProgress.set(state.setup, progress);
+
+    return progress.turnEnds[Math.max(0, state.turnsPlayed - delayTurns)] ?? progress.last;
+}
+
+export function spectatorView(state: GameState, options: SpectatorOptions = DEFAULT_SPECTATOR_OPTIONS): SpectatorView {
+    const delay = options.revealHands && state.status !== "GAME_OVER" ? Math.max(0, options.delayTurns) : 0;
+    const shown = delay > 0 ? delayedState(state, delay) : state;
+    // without a usable log there is nothing safe to reveal: fall back to the live table, hands hidden
+    if (!shown) return { ...tableView(state, null), hands: null, delayedTurns: 0 };
+
+    return {
+        ...tableView(shown, null),
+        hands: options.revealHands ? Object.fromEntries(shown.players.map((p) => [p.id, p.hand])) : null,
+        delayedTurns: delay,
+    };
+}
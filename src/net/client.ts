@@ -0,0 +1,140 @@
+// src/net/client.ts
+// Browser side of online play: one WebSocket to the server, re-opened (and the seat reclaimed) on drop,
+// or, when this page hosts a peer-to-peer game, the hub running right here.
+import type { ClientMessage, ServerMessage } from "./protocol";
+import type { RoomHub } from "./hub";
+import { parseServerMessage } from "./protocol";
+
+export type ConnectionStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+/** What the server needs to give a dropped player their seat back */
+export type Session = { code: string; token: string };
+
+export type NetClient = {
+    send: (message: ClientMessage) => boolean; // false if the connection is not open
+    close: () => void;
+};
+
+export type NetClientHandlers = {
+    onMessage: (message: ServerMessage) => void;
+    onStatus: (status: ConnectionStatus) => void;
+};
+
+/** Where the browser keeps its seat for a reload (per tab, so two tabs can sit at the same table) */
+export const SESSION_STORAGE_KEY = "flux_rounds.online";
+
+/** Session plus the server it belongs to, as kept in sessionStorage */
+export type StoredSession = Session & { url: string };
+
+export function loadSession(storage: Storage): StoredSession | null {
+    try {
+        const raw = storage.getItem(SESSION_STORAGE_KEY);
+        return raw ? (JSON.parse(raw) as StoredSession) : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(storage: Storage, session: StoredSession | null): void {
+    if (session) storage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    else storage.removeItem(SESSION_STORAGE_KEY);
+}
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 8000;
+
+/**
+ * Connect to the game server. After an unexpected close the client retries with backoff,
+ * and every (re)opened connection sends RECONNECT for the last session it joined
+ * (or WATCH_ROOM again for the room it was watching).
+ * Pass `session` to rejoin a seat from a previous page load.
+ */
+export function connectToServer(url: string, handlers: NetClientHandlers, session?: Session): NetClient {
+    let socket: WebSocket | null = null;
+    let current: Session | undefined = session;
+    let watching: string | undefined; // room code while spectating
+    let attempts = 0;
+    let closed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+        handlers.onStatus(attempts === 0 ? "connecting" : "reconnecting");
+        const ws = new WebSocket(url);
+        socket = ws;
+
+        ws.onopen = () => {
+            attempts = 0;
+            handlers.onStatus("open");
+            if (current) ws.send(JSON.stringify({ type: "RECONNECT", ...current } satisfies ClientMessage));
+            else if (watching) ws.send(JSON.stringify({ type: "WATCH_ROOM", code: watching } satisfies ClientMessage));
+        };
+        ws.onmessage = (event) => {
+            const message = parseServerMessage(String(event.data));
+            if (!message) return;
+            if (message.type === "JOINED") {
+                current = { code: message.code, token: message.token };
+                watching = undefined;
+            }
+            if (message.type === "WATCHING") {
+                current = undefined;
+                watching = message.code;
+            }
+            // a stale session (room gone, seat not ours) must not be retried forever
+            if (message.type === "ERROR" && (message.error.code === "ROOM_NOT_FOUND" || message.error.code === "BAD_TOKEN")) {
+                current = undefined;
+                watching = undefined;
+            }
+            handlers.onMessage(message);
+        };
+        ws.onclose = () => {
+            socket = null;
+            if (closed) return handlers.onStatus("closed");
+            const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+            attempts++;
+            handlers.onStatus("reconnecting");
+            retryTimer = setTimeout(open, delay);
+        };
+    };
+
+    open();
+
+    return {
+        send: (message) => {
+            if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+            if (message.type === "LEAVE") {
+                current = undefined;
+                watching = undefined;
+            }
+            socket.send(JSON.stringify(message));
+            return true;
+        },
+        close: () => {
+            closed = true;
+            clearTimeout(retryTimer);
+            if (socket) socket.close();
+            else handlers.onStatus("closed");
+        },
+    };
+}
+
+/** The host's own seat in a peer-to-peer game: talks to the hub in the same page */
+export function connectLocal(hub: RoomHub, handlers: NetClientHandlers): NetClient {
+    let open = true;
+    const conn = hub.connect((message) => {
+        if (open) handlers.onMessage(message);
+    });
+    handlers.onStatus("open");
+
+    return {
+        send: (message) => {
+            if (!open) return false;
+            conn.receive(JSON.stringify(message));
+            return true;
+        },
+        close: () => {
+            open = false;
+            conn.close();
+            handlers.onStatus("closed");
+        },
+    };
+}
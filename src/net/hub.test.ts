@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { ServerMessage } from "./protocol";
+import type { RoomHub } from "./hub";
+import { createRoomHub } from "./hub";
+import { decodeSignal, encodeSignal } from "./peer";
+import { mulberry32 } from "../game/deck";
+
+let hub: RoomHub;
+afterEach(() => hub?.close());
+
+const setup = () => {
+    let tokens = 0;
+    hub = createRoomHub({ rng: mulberry32(1), newToken: () => `token-${++tokens}`, botDelayMs: 60_000 });
+};
+
+/** A client as the hub sees it: everything it was sent, and a way to talk */
+const join = () => {
+    const inbox: ServerMessage[] = [];
+    const conn = hub.connect((m) => inbox.push(m));
+    const last = <T extends ServerMessage["type"]>(type: T) =>
+        inbox.filter((m): m is Extract<ServerMessage, { type: T }> => m.type === type).at(-1);
+    return { last, send: (message: object) => conn.receive(JSON.stringify(message)), raw: conn.receive, close: conn.close };
+};
+
+describe("hub.createRoomHub", () => {
+    it("seats players by room code and sends each one only their own view", () => {
+        setup();
+        const ann = join();
+        const bob = join();
+        ann.send({ type: "CREATE_ROOM", name: "Ann" });
+        const code = ann.last("JOINED")!.code;
+        bob.send({ type: "JOIN_ROOM", code: code.toLowerCase(), name: "Bob" });
+        expect(bob.last("JOINED")).toMatchObject({ code, playerId: "P2" });
+
+        ann.send({ type: "START_GAME", options: { seed: 5 } });
+        const annView = ann.last("STATE")!.view;
+        const bobView = bob.last("STATE")!.view;
+        expect(annView.viewerId).toBe("P1");
+        expect(bobView.viewerId).toBe("P2");
+        expect(annView.hand).not.toEqual(bobView.hand);
+        expect(JSON.stringify(bobView)).not.toContain(annView.hand[0].id);
+        expect(ann.last("STATE")!.finished).toBeUndefined();
+    });
+
+    it("rejects out-of-turn actions and garbage", () => {
+        setup();
+        const ann = join();
+        const bob = join();
+        ann.send({ type: "CREATE_ROOM", name: "Ann" });
+        bob.send({ type: "JOIN_ROOM", code: ann.last("JOINED")!.code, name: "Bob" });
+        ann.send({ type: "START_GAME", options: { seed: 5 } });
+
+        bob.send({ type: "ACTION", action: { type: "DRAW_DECK" } });
+        expect(bob.last("ERROR")?.error.code).toBe("NOT_YOUR_TURN");
+
+        bob.raw("not json");
+        expect(bob.last("ERROR")?.error.code).toBe("BAD_MESSAGE");
+
+        ann.send({ type: "ACTION", action: { type: "DRAW_DECK" } });
+        expect(bob.last("STATE")!.view.players[0].handCount).toBe(4);
+    });
+
+    it("refuses START_GAME options of the wrong shape or beyond the caps", () => {
+        setup();
+        const ann = join();
+        const bob = join();
+        ann.send({ type: "CREATE_ROOM", name: "Ann" });
+        bob.send({ type: "JOIN_ROOM", code: ann.last("JOINED")!.code, name: "Bob" });
+
+        for (const options of [
+            "fast",
+            { seed: { n: 1 } },
+            { rules: { decks: "2" } },
+            { rules: { shuffleHands: true } },
+            { spectators: { revealHands: true, delayTurns: -1 } },
+        ]) {
+            ann.send({ type: "START_GAME", options });
+            expect(ann.last("ERROR")?.error.code).toBe("BAD_MESSAGE");
+        }
+        ann.send({ type: "START_GAME", options: { rules: { decks: 1_000_000_000 } } });
+        expect(ann.last("ERROR")?.error).toMatchObject({ code: "START_FAILED", message: expect.stringMatching(/Invalid decks/) });
+        expect(ann.last("STATE")).toBeUndefined();
+    });
+
+    it("keeps a dropped player's seat until they reconnect with their token", () => {
+        setup();
+        const ann = join();
+        const bob = join();
+        ann.send({ type: "CREATE_ROOM", name: "Ann" });
+        const code = ann.last("JOINED")!.code;
+        bob.send({ type: "JOIN_ROOM", code, name: "Bob" });
+        ann.send({ type: "START_GAME", options: { seed: 5 } });
+        const { token } = bob.last("JOINED")!;
+
+        bob.close();
+        expect(ann.last("LOBBY")!.lobby.seats.map((s) => s.connected)).toEqual([true, false]);
+
+        const back = join();
+        back.send({ type: "RECONNECT", code, token: "someone-else" });
+        expect(back.last("ERROR")?.error.code).toBe("BAD_TOKEN");
+        back.send({ type: "RECONNECT", code, token });
+        expect(back.last("JOINED")?.playerId).toBe("P2");
+        expect(back.last("STATE")!.view.viewerId).toBe("P2");
+        expect(ann.last("LOBBY")!.lobby.seats.every((s) => s.connected)).toBe(true);
+    });
+
+    it("sends watchers the spectator view the host chose, and no seat", () => {
+        setup();
+        const ann = join();
+        const bob = join();
+        const eve = join();
+        ann.send({ type: "CREATE_ROOM", name: "Ann" });
+        const code = ann.last("JOINED")!.code;
+        bob.send({ type: "JOIN_ROOM", code, name: "Bob" });
+        eve.send({ type: "WATCH_ROOM", code: code.toLowerCase() });
+        expect(eve.last("WATCHING")?.code).toBe(code);
+        expect(eve.last("JOINED")).toBeUndefined();
+        expect(ann.last("LOBBY")!.lobby.spectators).toBe(1);
+
+        ann.send({ type: "START_GAME", options: { seed: 5, spectators: { revealHands: true, delayTurns: 0 } } });
+        const watched = eve.last("SPECTATE")!.view;
+        expect(watched.hands?.P1).toEqual(ann.last("STATE")!.view.hand);
+        expect(eve.last("STATE")).toBeUndefined();
+
+        eve.send({ type: "ACTION", action: { type: "DRAW_DECK" } });
+        expect(eve.last("ERROR")?.error.code).toBe("NOT_IN_ROOM");
+
+        eve.send({ type: "LEAVE" });
+        expect(ann.last("LOBBY")!.lobby.spectators).toBe(0);
+    });
+});
+
+describe("peer.encodeSignal / decodeSignal", () => {
+    it("round-trips codes and refuses the wrong kind or a damaged paste", () => {
+        const invite = encodeSignal({ kind: "offer", sdp: "v=0\r\n", room: "ABCDE" });
+        expect(decodeSignal(`  ${invite}\n`, "offer")).toEqual({ kind: "offer", sdp: "v=0\r\n", room: "ABCDE" });
+        expect(decodeSignal(invite, "answer")).toBeNull();
+        expect(decodeSignal(invite.slice(0, 10), "offer")).toBeNull();
+    });
+});
@@ -0,0 +1,245 @@
+// src/net/hub.ts
+// The online authority minus the transport: rooms, seats, bot turns, and which view each peer gets.
+// Driven by the WebSocket server (server/gameServer.ts) and by a browser hosting a peer-to-peer game.
+import type { Room } from "./room";
+import type { ClientMessage, NetErrorCode, ServerMessage } from "./protocol";
+import type { Rng } from "../game/deck";
+import {
+    addBot,
+    applyRoomAction,
+    createRoom,
+    createRoomCode,
+    joinRoom,
+    leaveRoom,
+    lobbyView,
+    normalizeRoomCode,
+    seatByToken,
+    startRoom,
+    stepBot,
+} from "./room";
+import { parseClientMessage } from "./protocol";
+import { spectatorView, viewFor } from "../game/view";
+import { defaultRng } from "../game/deck";
+
+/** Pause between bot actions so humans can follow what happened (same as the local table) */
+const BOT_ACTION_DELAY_MS = 700;
+/** Rooms nobody is connected to are dropped after this long (players can reconnect until then) */
+const ROOM_IDLE_MS = 30 * 60 * 1000;
+
+/** One connected client, whatever carries its messages */
+export type HubConnection = {
+    receive: (raw: string) => void; // a JSON ClientMessage
+    close: () => void; // the client dropped; its seat stays until it leaves
+};
+
+export type RoomHub = {
+    connect: (send: (message: ServerMessage) => void) => HubConnection;
+    close: () => void;
+};
+
+export type RoomHubOptions = {
+    rng?: Rng;
+    newToken?: () => string;
+    botDelayMs?: number;
+    idleMs?: number;
+};
+
+type Peer = {
+    send: (message: ServerMessage) => void;
+    code?: string; // room joined on this connection
+    token?: string; // seat token within that room; none for a spectator
+};
+
+export function createRoomHub(options: RoomHubOptions = {}): RoomHub {
+    const rng = options.rng ?? defaultRng;
+    const newToken = options.newToken ?? (() => crypto.randomUUID());
+    const botDelayMs = options.botDelayMs ?? BOT_ACTION_DELAY_MS;
+    const idleMs = options.idleMs ?? ROOM_IDLE_MS;
+
+    const rooms = new Map<string, Room>();
+    const peers = new Set<Peer>();
+    const botTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const sendError = (peer: Peer, code: NetErrorCode, message: string) =>
+        peer.send({ type: "ERROR", error: { code, message } });
+
+    const membersOf = (code: string) => [...peers].filter((p) => p.code === code && p.token);
+    const watchersOf = (code: string) => [...peers].filter((p) => p.code === code && !p.token);
+
+    const seatOf = (peer: Peer) => {
+        const room = peer.code ? rooms.get(peer.code) : undefined;
+        const seat = room && peer.token ? seatByToken(room, peer.token) : undefined;
+        return room && seat ? { room, seat } : null;
+    };
+
+    /** Lobby to everyone in the room, then the game as each of them may see it */
+    const broadcast = (room: Room) => {
+        const members = membersOf(room.code);
+        const watchers = watchersOf(room.code);
+        const connected = new Set(
+            members.map((p) => seatByToken(room, p.token as string)?.id).filter((id): id is string => !!id)
+        );
+        const lobby = lobbyView(room, connected, watchers.length);
+        const watched = room.state && watchers.length > 0 ? spectatorView(room.state, room.spectate) : null;
+        for (const peer of watchers) {
+            peer.send({ type: "LOBBY", lobby });
+            if (watched) peer.send({ type: "SPECTATE", view: watched });
+        }
+        for (const peer of members) {
+            peer.send({ type: "LOBBY", lobby });
+            const seat = seatByToken(room, peer.token as string);
+            if (!room.state || !seat) continue;
+            // a finished game has nothing left to hide; everyone gets it for the replay
+            const finished = room.state.status === "GAME_OVER" ? room.state : undefined;
+            peer.send({ type: "STATE", view: viewFor(room.state, seat.id), finished });
+        }
+    };
+
+    const update = (room: Room) => {
+        rooms.set(room.code, room);
+        broadcast(room);
+        scheduleBot(room.code);
+    };
+
+    /** Bots play one action per tick, like on the local table */
+    const scheduleBot = (code: string) => {
+        if (botTimers.has(code)) return;
+        const timer = setTimeout(() => {
+            botTimers.delete(code);
+            const room = rooms.get(code);
+            const next = room ? stepBot(room, rng) : null;
+            if (next) update(next);
+        }, botDelayMs);
+        botTimers.set(code, timer);
+    };
+
+    const dropIfIdle = (code: string) => {
+        clearTimeout(idleTimers.get(code));
+        if (membersOf(code).length > 0) return;
+        idleTimers.set(
+            code,
+            setTimeout(() => {
+                idleTimers.delete(code);
+                if (membersOf(code).length > 0) return;
+                rooms.delete(code);
+                clearTimeout(botTimers.get(code));
+                botTimers.delete(code);
+            }, idleMs)
+        );
+    };
+
+    /** `seat` is null for a spectator */
+    const enter = (peer: Peer, room: Room, seat: { token: string; playerId: string } | null) => {
+        const previous = peer.code;
+        peer.code = room.code;
+        peer.token = seat?.token;
+        if (seat) {
+            clearTimeout(idleTimers.get(room.code));
+            peer.send({ type: "JOINED", code: room.code, playerId: seat.playerId, token: seat.token });
+        } else {
+            peer.send({ type: "WATCHING", code: room.code });
+        }
+        if (previous && previous !== room.code) dropIfIdle(previous);
+        update(room);
+    };
+
+    const handle = (peer: Peer, message: ClientMessage) => {
+        switch (message.type) {
+            case "CREATE_ROOM": {
+                const code = createRoomCode(rng, new Set(rooms.keys()));
+                const token = newToken();
+                enter(peer, createRoom(code, message.name, token), { token, playerId: "P1" });
+                return;
+            }
+            case "JOIN_ROOM": {
+                const room = rooms.get(normalizeRoomCode(message.code));
+                if (!room) return sendError(peer, "ROOM_NOT_FOUND", `No room with code ${message.code}.`);
+                const token = newToken();
+                const res = joinRoom(room, message.name, token);
+                if (!res.ok) return sendError(peer, res.error.code, res.error.message);
+                enter(peer, res.value.room, { token, playerId: res.value.seat.id });
+                return;
+            }
+            case "RECONNECT": {
+                const room = rooms.get(normalizeRoomCode(message.code));
+                if (!room) return sendError(peer, "ROOM_NOT_FOUND", "The room no longer exists.");
+                const seat = seatByToken(room, message.token);
+                if (!seat) return sendError(peer, "BAD_TOKEN", "That seat is not yours.");
+                enter(peer, room, { token: message.token, playerId: seat.id });
+                return;
+            }
+            case "WATCH_ROOM": {
+                const room = rooms.get(normalizeRoomCode(message.code));
+                if (!room) return sendError(peer, "ROOM_NOT_FOUND", `No room with code ${message.code}.`);
+                enter(peer, room, null);
+                return;
+            }
+        }
+
+        // a spectator can only stop watching
+        if (message.type === "LEAVE" && peer.code && !peer.token) {
+            const room = rooms.get(peer.code);
+            peer.code = undefined;
+            if (room) broadcast(room);
+            return;
+        }
+
+        const joined = seatOf(peer);
+        if (!joined) return sendError(peer, "NOT_IN_ROOM", "Join a room first.");
+        const { room, seat } = joined;
+
+        switch (message.type) {
+            case "ADD_BOT": {
+                const res = addBot(room, seat.id, message.botLevel);
+                return res.ok ? update(res.value) : sendError(peer, res.error.code, res.error.message);
+            }
+            case "START_GAME": {
+                const res = startRoom(room, seat.id, message.options);
+                return res.ok ? update(res.value) : sendError(peer, res.error.code, res.error.message);
+            }
+            case "ACTION": {
+                const res = applyRoomAction(room, seat.id, message.action);
+                return res.ok ? update(res.value) : sendError(peer, res.error.code, res.error.message);
+            }
+            case "LEAVE": {
+                peer.code = undefined;
+                peer.token = undefined;
+                const next = leaveRoom(room, seat.id);
+                if (next.seats.some((s) => s.kind === "human")) update(next);
+                else rooms.delete(room.code);
+                dropIfIdle(room.code);
+                return;
+            }
+        }
+    };
+
+    return {
+        connect: (send) => {
+            const peer: Peer = { send };
+            peers.add(peer);
+            return {
+                receive: (raw) => {
+                    if (!peers.has(peer)) return;
+                    const message = parseClientMessage(raw);
+                    if (!message) return sendError(peer, "BAD_MESSAGE", "Unrecognized message.");
+                    handle(peer, message);
+                },
+                // A dropped player keeps their seat; the others see them as disconnected until they reconnect
+                close: () => {
+                    if (!peers.delete(peer)) return;
+                    const room = peer.code ? rooms.get(peer.code) : undefined;
+                    if (!room) return;
+                    broadcast(room);
+                    dropIfIdle(room.code);
+                },
+            };
+        },
+        close: () => {
+            for (const timer of [...botTimers.values(), ...idleTimers.values()]) clearTimeout(timer);
+            botTimers.clear();
+            idleTimers.clear();
+            peers.clear();
+        },
+    };
+}
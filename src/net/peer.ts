@@ -0,0 +1,138 @@
+// src/net/peer.ts
+// Serverless online play: the host's browser runs a RoomHub and every guest talks to it over a
+// WebRTC data channel. Signaling is manual: the host's invite code and the guest's answer code
+// are copied/pasted between the players (chat, mail, ...), so no server is ever involved.
+import type { RoomHub } from "./hub";
+import type { NetClient, NetClientHandlers } from "./client";
+import { parseServerMessage } from "./protocol";
+
+/** Public STUN only: enough to find a direct route between most home networks */
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+/** Codes are created once ICE gathering is complete (no trickle: there is no channel for it) */
+const ICE_GATHER_TIMEOUT_MS = 5000;
+const CHANNEL_LABEL = "flux_rounds";
+
+/** What a pasted code carries: the SDP, and for invites the room to join */
+export type PeerSignal =
+    | { kind: "offer"; sdp: string; room: string }
+    | { kind: "answer"; sdp: string };
+
+export function encodeSignal(signal: PeerSignal): string {
+    return btoa(JSON.stringify(signal));
+}
+
+/** null if the text is not a code of the expected kind (wrong box, truncated copy, ...) */
+export function decodeSignal<K extends PeerSignal["kind"]>(code: string, kind: K): Extract<PeerSignal, { kind: K }> | null {
+    try {
+        const data: unknown = JSON.parse(atob(code.trim()));
+        if (typeof data !== "object" || data === null) return null;
+        const signal = data as Record<string, unknown>;
+        if (signal.kind !== kind || typeof signal.sdp !== "string") return null;
+        if (kind === "offer" && typeof signal.room !== "string") return null;
+        return signal as Extract<PeerSignal, { kind: K }>;
+    } catch {
+        return null;
+    }
+}
+
+function gatherIce(pc: RTCPeerConnection): Promise<void> {
+    if (pc.iceGatheringState === "complete") return Promise.resolve();
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ICE_GATHER_TIMEOUT_MS);
+        pc.addEventListener("icegatheringstatechange", () => {
+            if (pc.iceGatheringState !== "complete") return;
+            clearTimeout(timer);
+            resolve();
+        });
+    });
+}
+
+function whenOpen(channel: RTCDataChannel): Promise<RTCDataChannel> {
+    if (channel.readyState === "open") return Promise.resolve(channel);
+    return new Promise((resolve, reject) => {
+        channel.addEventListener("open", () => resolve(channel), { once: true });
+        channel.addEventListener("close", () => reject(new Error("The connection was closed.")), { once: true });
+    });
+}
+
+/** Host side of one guest: show `code`, then `accept` the guest's answer code */
+export type PeerInvite = {
+    code: string;
+    accept: (answerCode: string) => Promise<void>;
+    opened: Promise<RTCDataChannel>;
+    close: () => void;
+};
+
+export async function createInvite(room: string): Promise<PeerInvite> {
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const channel = pc.createDataChannel(CHANNEL_LABEL);
+    await pc.setLocalDescription(await pc.createOffer());
+    await gatherIce(pc);
+
+    return {
+        code: encodeSignal({ kind: "offer", sdp: pc.localDescription?.sdp ?? "", room }),
+        accept: async (answerCode) => {
+            const answer = decodeSignal(answerCode, "answer");
+            if (!answer) throw new Error("That is not an answer code.");
+            await pc.setRemoteDescription({ type: "answer", sdp: answer.sdp });
+        },
+        opened: whenOpen(channel),
+        close: () => pc.close(),
+    };
+}
+
+/** Guest side: the answer code to send back, and the room named in the invite */
+export type PeerAnswer = {
+    code: string;
+    room: string;
+    opened: Promise<RTCDataChannel>;
+    close: () => void;
+};
+
+export async function answerInvite(inviteCode: string): Promise<PeerAnswer> {
+    const offer = decodeSignal(inviteCode, "offer");
+    if (!offer) throw new Error("That is not an invite code.");
+
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const opened = new Promise<RTCDataChannel>((resolve, reject) => {
+        pc.addEventListener("datachannel", (e) => whenOpen(e.channel).then(resolve, reject), { once: true });
+    });
+    await pc.setRemoteDescription({ type: "offer", sdp: offer.sdp });
+    await pc.setLocalDescription(await pc.createAnswer());
+    await gatherIce(pc);
+
+    return {
+        code: encodeSignal({ kind: "answer", sdp: pc.localDescription?.sdp ?? "" }),
+        room: offer.room,
+        opened,
+        close: () => pc.close(),
+    };
+}
+
+/** Host: serve a guest's channel from the hub, like a WebSocket on the server */
+export function serveChannel(hub: RoomHub, channel: RTCDataChannel): void {
+    const conn = hub.connect((message) => {
+        if (channel.readyState === "open") channel.send(JSON.stringify(message));
+    });
+    channel.addEventListener("message", (e) => conn.receive(String(e.data)));
+    channel.addEventListener("close", () => conn.close());
+}
+
+/** Guest: a NetClient over the channel. There is no reconnect: a dropped peer needs a new invite */
+export function connectChannel(channel: RTCDataChannel, handlers: NetClientHandlers): NetClient {
+    channel.addEventListener("message", (e) => {
+        const message = parseServerMessage(String(e.data));
+        if (message) handlers.onMessage(message);
+    });
+    channel.addEventListener("close", () => handlers.onStatus("closed"));
+    handlers.onStatus(channel.readyState === "open" ? "open" : "closed");
+
+    return {
+        send: (message) => {
+            if (channel.readyState !== "open") return false;
+            channel.send(JSON.stringify(message));
+            return true;
+        },
+        close: () => channel.close(),
+    };
+}
@@ -0,0 +1,146 @@
+// src/net/protocol.ts
+// Messages between the online client and the authoritative server (JSON over WebSocket)
+import type { BotLevel, GameState, PlayerKind } from "../game/state";
+import type { GameAction } from "../game/engine";
+import type { PlayerView, SpectatorOptions, SpectatorView } from "../game/view";
+import type { RuleSetOptions } from "../game/rules";
+import { DEFAULT_RULESET } from "../game/rules";
+
+export const DEFAULT_SERVER_URL = "ws://localhost:8787";
+
+export type StartOptions = {
+    seed?: number | string;
+    startDiscard?: boolean;
+    rules?: RuleSetOptions;
+    spectators?: SpectatorOptions; // what people watching the room see (hands hidden by default)
+};
+
+export type ClientMessage =
+    | { type: "CREATE_ROOM"; name: string }
+    | { type: "JOIN_ROOM"; code: string; name: string }
+    | { type: "RECONNECT"; code: string; token: string }
+    | { type: "WATCH_ROOM"; code: string } // spectate without a seat
+    | { type: "ADD_BOT"; botLevel: BotLevel }
+    | { type: "START_GAME"; options?: StartOptions }
+    | { type: "ACTION"; action: GameAction }
+    | { type: "LEAVE" };
+
+/** A seat as everyone in the room sees it */
+export type LobbySeat = {
+    id: string; // becomes the player id once the game starts (P1, P2, ...)
+    name: string;
+    kind: PlayerKind;
+    botLevel?: BotLevel;
+    connected: boolean; // bots are always connected
+};
+
+export type LobbyView = {
+    code: string;
+    hostId: string;
+    seats: LobbySeat[];
+    started: boolean;
+    spectators: number; // connections watching the room
+};
+
+export type NetErrorCode =
+    | "BAD_MESSAGE"
+    | "ROOM_NOT_FOUND"
+    | "ROOM_FULL"
+    | "BAD_TOKEN"
+    | "NOT_IN_ROOM"
+    | "NOT_HOST"
+    | "ALREADY_STARTED"
+    | "NOT_STARTED"
+    | "TOO_FEW_PLAYERS"
+    | "START_FAILED"
+    | "NOT_YOUR_TURN"
+    | "ACTION_REJECTED";
+
+export type NetError = { code: NetErrorCode; message: string };
+
+export type ServerMessage =
+    | { type: "JOINED"; code: string; playerId: string; token: string } // keep the token to reconnect
+    | { type: "WATCHING"; code: string }
+    | { type: "LOBBY"; lobby: LobbyView }
+    | { type: "STATE"; view: PlayerView; finished?: GameState } // the receiver's view; the whole game once it is over
+    | { type: "SPECTATE"; view: SpectatorView } // to watchers, as the room's spectator options allow
+    | { type: "ERROR"; error: NetError };
+
+function parseJson(raw: string): Record<string, unknown> | null {
+    try {
+        const data: unknown = JSON.parse(raw);
+        return typeof data === "object" && data !== null && typeof (data as { type?: unknown }).type === "string"
+            ? (data as Record<string, unknown>)
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** House rules of the right types (their values are checked by createRuleSet when the game is dealt) */
+function isRuleOptions(v: unknown): v is RuleSetOptions {
+    if (!isRecord(v)) return false;
+    return Object.entries(v).every(([key, value]) => {
+        if (key === "penalties") return isRecord(value) && Object.values(value).every((n) => typeof n === "number");
+        return key in DEFAULT_RULESET && typeof value === typeof DEFAULT_RULESET[key as keyof typeof DEFAULT_RULESET];
+    });
+}
+
+function isSpectatorOptions(v: unknown): v is SpectatorOptions {
+    return isRecord(v) && typeof v.revealHands === "boolean" && typeof v.delayTurns === "number" && Number.isInteger(v.delayTurns) && v.delayTurns >= 0;
+}
+
+/** START_GAME options: undefined when none were sent, null when they are malformed */
+function parseStartOptions(v: unknown): StartOptions | undefined | null {
+    if (v === undefined || v === null) return undefined;
+    if (!isRecord(v)) return null;
+    const { seed, startDiscard, rules, spectators } = v;
+    if (seed !== undefined && typeof seed !== "string" && !(typeof seed === "number" && Number.isFinite(seed))) return null;
+    if (startDiscard !== undefined && typeof startDiscard !== "boolean") return null;
+    if (rules !== undefined && !isRuleOptions(rules)) return null;
+    if (spectators !== undefined && !isSpectatorOptions(spectators)) return null;
+    return { seed, startDiscard, rules, spectators };
+}
+
+/**
+ * Decode a message from a client. Only the envelope (and the shape of START_GAME options)
+ * is checked here: actions are validated by the engine, which is the authority.
+ */
+export function parseClientMessage(raw: string): ClientMessage | null {
+    const data = parseJson(raw);
+    if (!data) return null;
+    const isStr = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+    switch (data.type) {
+        case "CREATE_ROOM":
+            return isStr(data.name) ? { type: "CREATE_ROOM", name: data.name } : null;
+        case "JOIN_ROOM":
+            return isStr(data.code) && isStr(data.name) ? { type: "JOIN_ROOM", code: data.code, name: data.name } : null;
+        case "RECONNECT":
+            return isStr(data.code) && isStr(data.token) ? { type: "RECONNECT", code: data.code, token: data.token } : null;
+        case "WATCH_ROOM":
+            return isStr(data.code) ? { type: "WATCH_ROOM", code: data.code } : null;
+        case "ADD_BOT":
+            return data.botLevel === "easy" || data.botLevel === "hard" ? { type: "ADD_BOT", botLevel: data.botLevel } : null;
+        case "START_GAME": {
+            const options = parseStartOptions(data.options);
+            return options === null ? null : { type: "START_GAME", options };
+        }
+        case "ACTION": {
+            const action = data.action as { type?: unknown } | null;
+            return typeof action === "object" && action !== null && typeof action.type === "string"
+                ? { type: "ACTION", action: action as GameAction }
+                : null;
+        }
+        case "LEAVE":
+            return { type: "LEAVE" };
+        default:
+            return null;
+    }
+}
+
+/** Decode a message from the server (trusted: only the envelope is checked) */
+export function parseServerMessage(raw: string): ServerMessage | null {
+    return parseJson(raw) as ServerMessage | null;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import type { Room } from "./room";
+import { MAX_SEATS, addBot, applyRoomAction, createRoom, createRoomCode, joinRoom, leaveRoom, lobbyView, normalizeRoomCode, startRoom, stepBot } from "./room";
+import { applyAction } from "../game/engine";
+import { mulberry32 } from "../game/deck";
+
+const unwrap = <T>(res: { ok: true; value: T } | { ok: false; error: { message: string } }): T => {
+    if (!res.ok) throw new Error(res.error.message);
+    return res.value;
+};
+
+const twoHumans = (): Room => unwrap(joinRoom(createRoom("ABCDE", "Ann", "t1"), "Bob", "t2")).room;
+
+describe("room.lobby", () => {
+    it("creates distinct, unambiguous codes and normalizes typed ones", () => {
+        const rng = mulberry32(1);
+        const first = createRoomCode(rng);
+        const second = createRoomCode(mulberry32(1), new Set([first]));
+        expect(first).toMatch(/^[A-HJ-NP-Z2-9]{5}$/);
+        expect(second).not.toBe(first);
+        expect(normalizeRoomCode("  abcde ")).toBe("ABCDE");
+    });
+
+    it("seats players in join order and stops at the table limit", () => {
+        let room = twoHumans();
+        expect(room.seats.map((s) => s.id)).toEqual(["P1", "P2"]);
+        for (let i = room.seats.length; i < MAX_SEATS; i++) room = unwrap(addBot(room, "P1", "easy"));
+
+        const res = joinRoom(room, "Late", "t9");
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error.code).toBe("ROOM_FULL");
+    });
+
+    it("lets only the host add bots and start", () => {
+        const room = twoHumans();
+        const bot = addBot(room, "P2", "hard");
+        expect(bot.ok).toBe(false);
+        if (!bot.ok) expect(bot.error.code).toBe("NOT_HOST");
+
+        const start = startRoom(room, "P2");
+        expect(start.ok).toBe(false);
+        if (!start.ok) expect(start.error.code).toBe("NOT_HOST");
+
+        const alone = startRoom(createRoom("ABCDE", "Ann", "t1"), "P1");
+        expect(alone.ok).toBe(false);
+        if (!alone.ok) expect(alone.error.code).toBe("TOO_FEW_PLAYERS");
+    });
+
+    it("renumbers seats when someone leaves, and hands the room to the next human if the host leaves", () => {
+        const room = unwrap(joinRoom(twoHumans(), "Cy", "t3")).room;
+
+        const withoutBob = leaveRoom(room, "P2");
+        expect(withoutBob.seats.map((s) => [s.id, s.name])).toEqual([["P1", "Ann"], ["P2", "Cy"]]);
+        expect(withoutBob.hostId).toBe("P1");
+
+        const withoutHost = leaveRoom(room, "P1");
+        expect(withoutHost.seats[0]).toMatchObject({ id: "P1", name: "Bob" });
+        expect(withoutHost.hostId).toBe("P1");
+    });
+
+    it("reports who is connected; bots always are", () => {
+        const room = unwrap(addBot(twoHumans(), "P1", "easy"));
+        const view = lobbyView(room, new Set(["P1"]));
+        expect(view.seats.map((s) => s.connected)).toEqual([true, false, true]);
+        expect(JSON.stringify(view)).not.toContain("t1"); // tokens never leave the server
+    });
+});
+
+describe("room.startRoom", () => {
+    it("checks the host's options before dealing", () => {
+        const res = startRoom(twoHumans(), "P1", { rules: { decks: 1_000_000_000 } });
+        expect(res.ok).toBe(false);
+        if (!res.ok) expect(res.error).toMatchObject({ code: "START_FAILED", message: expect.stringMatching(/Invalid decks/) });
+    });
+});
+
+describe("room.applyRoomAction", () => {
+    it("only accepts actions from the player whose turn it is", () => {
+        const room = unwrap(startRoom(twoHumans(), "P1", { seed: 5 }));
+
+        const early = applyRoomAction(room, "P2", { type: "DRAW_DECK" });
+        expect(early.ok).toBe(false);
+        if (!early.ok) expect(early.error.code).toBe("NOT_YOUR_TURN");
+
+        const drawn = unwrap(applyRoomAction(room, "P1", { type: "DRAW_DECK" }));
+        expect(drawn.state?.players[0].hand).toHaveLength(4);
+    });
+
+    it("rejects illegal moves and malformed actions without touching the room", () => {
+        const room = unwrap(startRoom(twoHumans(), "P1", { seed: 5 }));
+
+        const rejected = applyRoomAction(room, "P1", { type: "DISCARD", cardId: "nope" });
+        expect(rejected.ok).toBe(false);
+        if (!rejected.ok) expect(rejected.error.code).toBe("ACTION_REJECTED");
+
+        const malformed = applyRoomAction(room, "P1", { type: "MELD" } as never);
+        expect(malformed.ok).toBe(false);
+    });
+
+    it("lets a bot seat play its own turn", () => {
+        const room = unwrap(startRoom(unwrap(addBot(createRoom("ABCDE", "Ann", "t1"), "P1", "easy")), "P1", { seed: 5 }));
+        expect(stepBot(room, mulberry32(1))).toBeNull(); // Ann is first
+
+        let state = unwrap(applyAction(room.state!, { type: "DRAW_DECK" }));
+        state = unwrap(applyAction(state, { type: "DISCARD", cardId: state.players[0].hand[0].id }));
+        const next = stepBot({ ...room, state }, mulberry32(1));
+        expect(next?.state?.log.length).toBe(state.log.length + 1);
+    });
+
+    it("plays a legal move for a bot whose choice the engine rejects, instead of stalling", () => {
+        const room = unwrap(startRoom(unwrap(addBot(createRoom("ABCDE", "Ann", "t1"), "P1", "easy")), "P1", { seed: 5 }));
+        let state = unwrap(applyAction(room.state!, { type: "DRAW_DECK" }));
+        state = unwrap(applyAction(state, { type: "DISCARD", cardId: state.players[0].hand[0].id }));
+
+        const next = stepBot({ ...room, state }, mulberry32(1), () => ({ type: "DISCARD", cardId: "nope" }));
+        expect(next?.state?.log.at(-1)?.action.type).toBe("DRAW_DECK");
+    });
+});
@@ -0,0 +1,173 @@
+// src/net/room.ts
+// Transport-agnostic room authority: lobby seats + the one true GameState.
+// Pure functions over a Room value; the server owns the sockets and the timers.
+import type { BotLevel, GameState, PlayerKind } from "../game/state";
+import type { GameAction, Result } from "../game/engine";
+import type { Rng } from "../game/deck";
+import type { SpectatorOptions } from "../game/view";
+import type { LobbyView, NetError, NetErrorCode, StartOptions } from "./protocol";
+import { MAX_PLAYERS, checkNewGame, newGame } from "../game/state";
+import { DEFAULT_SPECTATOR_OPTIONS } from "../game/view";
+import { applyAction } from "../game/engine";
+import { chooseBotAction } from "../game/bot";
+import { legalActions } from "../game/legal";
+
+export const MAX_SEATS = MAX_PLAYERS;
+
+/** Letters that cannot be confused when read aloud or typed (no I/O/0/1) */
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 5;
+
+export type RoomSeat = {
+    id: string; // P1, P2, ... — the player id once the game starts
+    name: string;
+    kind: PlayerKind;
+    botLevel?: BotLevel;
+    token?: string; // humans only: secret used to reconnect to this seat
+};
+
+export type Room = {
+    code: string;
+    hostId: string;
+    seats: RoomSeat[];
+    state: GameState | null; // null while in the lobby
+    spectate: SpectatorOptions; // chosen by the host when starting
+};
+
+function fail(code: NetErrorCode, message: string): Result<never, NetError> {
+    return { ok: false, error: { code, message } };
+}
+
+export function createRoomCode(rng: Rng, taken: ReadonlySet<string> = new Set()): string {
+    for (;;) {
+        let code = "";
+        for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(rng() * CODE_ALPHABET.length)];
+        if (!taken.has(code)) return code;
+    }
+}
+
+/** Room codes are typed by people: ignore case and surrounding spaces */
+export function normalizeRoomCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+export function createRoom(code: string, hostName: string, token: string): Room {
+    return {
+        code,
+        hostId: "P1",
+        seats: [{ id: "P1", name: hostName, kind: "human", token }],
+        state: null,
+        spectate: DEFAULT_SPECTATOR_OPTIONS,
+    };
+}
+
+function addSeat(room: Room, seat: Omit<RoomSeat, "id">): Result<{ room: Room; seat: RoomSeat }, NetError> {
+    if (room.state) return fail("ALREADY_STARTED", "The game has already started.");
+    if (room.seats.length >= MAX_SEATS) return fail("ROOM_FULL", `The room is full (${MAX_SEATS} players).`);
+    const added: RoomSeat = { id: `P${room.seats.length + 1}`, ...seat };
+    return { ok: true, value: { room: { ...room, seats: [...room.seats, added] }, seat: added } };
+}
+
+export function joinRoom(room: Room, name: string, token: string): Result<{ room: Room; seat: RoomSeat }, NetError> {
+    return addSeat(room, { name, kind: "human", token });
+}
+
+export function addBot(room: Room, byId: string, botLevel: BotLevel): Result<Room, NetError> {
+    if (byId !== room.hostId) return fail("NOT_HOST", "Only the host can add bots.");
+    const bots = room.seats.filter((s) => s.kind === "bot").length;
+    const res = addSeat(room, { name: `CPU ${bots + 1}`, kind: "bot", botLevel });
+    return res.ok ? { ok: true, value: res.value.room } : res;
+}
+
+export function seatByToken(room: Room, token: string): RoomSeat | undefined {
+    return room.seats.find((s) => s.token !== undefined && s.token === token);
+}
+
+/** Lobby seats leave for good; once the game runs a seat stays (its player can reconnect) */
+export function leaveRoom(room: Room, seatId: string): Room {
+    if (room.state) return room;
+    const seats = room.seats
+        .filter((s) => s.id !== seatId)
+        .map((s, i) => ({ ...s, id: `P${i + 1}` }));
+    // the host keeps hosting (under a new id); if the host left, the next human takes over
+    const hostToken = room.seats.find((s) => s.id === room.hostId)?.token;
+    const host = seats.find((s) => s.token === hostToken) ?? seats.find((s) => s.kind === "human");
+    return { ...room, seats, hostId: host?.id ?? "P1" };
+}
+
+export function startRoom(room: Room, byId: string, options?: StartOptions): Result<Room, NetError> {
+    if (byId !== room.hostId) return fail("NOT_HOST", "Only the host can start the game.");
+    if (room.state) return fail("ALREADY_STARTED", "The game has already started.");
+    if (room.seats.length < 2) return fail("TOO_FEW_PLAYERS", "Need at least 2 players.");
+    const setup = {
+        seats: room.seats.map(({ name, kind, botLevel }) => ({ name, kind, botLevel })),
+        seed: options?.seed,
+        startDiscard: options?.startDiscard,
+        rules: options?.rules,
+    };
+    // house rules come from a client: check them (decks and Jokers are capped) before dealing anything
+    const problem = checkNewGame(setup);
+    if (problem) return fail("START_FAILED", problem);
+    try {
+        const state = newGame(setup);
+        return { ok: true, value: { ...room, state, spectate: options?.spectators ?? DEFAULT_SPECTATOR_OPTIONS } };
+    } catch (e) {
+        return fail("START_FAILED", e instanceof Error ? e.message : String(e));
+    }
+}
+
+/**
+ * Apply an action sent by the seat `byId`. Only the current player may act,
+ * except NEXT_ROUND, which any human at the table may request once the round is over.
+ */
+export function applyRoomAction(room: Room, byId: string, action: GameAction): Result<Room, NetError> {
+    const state = room.state;
+    if (!state) return fail("NOT_STARTED", "The game has not started yet.");
+    const seat = room.seats.find((s) => s.id === byId);
+    if (!seat || seat.kind !== "human") return fail("NOT_IN_ROOM", "You do not have a seat at this table.");
+
+    const current = state.players[state.currentPlayerIndex];
+    if (action.type !== "NEXT_ROUND" && current.id !== byId) return fail("NOT_YOUR_TURN", `It is ${current.name}'s turn.`);
+
+    try {
+        const res = applyAction(state, action);
+        if (!res.ok) return fail("ACTION_REJECTED", res.error.message);
+        return { ok: true, value: { ...room, state: res.value } };
+    } catch {
+        // a malformed action (missing fields) from a client must not take the room down
+        return fail("BAD_MESSAGE", "Malformed action.");
+    }
+}
+
+/**
+ * Let the bot whose turn it is play one action; null if a human has to act.
+ * Should the engine reject the bot's choice, the bot plays the first legal move instead,
+ * so the table never waits on a bot that is stuck.
+ */
+export function stepBot(room: Room, rng: Rng, choose: typeof chooseBotAction = chooseBotAction): Room | null {
+    if (!room.state) return null;
+    const action = choose(room.state, rng);
+    if (!action) return null;
+    const res = applyAction(room.state, action);
+    if (res.ok) return { ...room, state: res.value };
+
+    const fallback = legalActions(room.state)[0];
+    const retry = fallback ? applyAction(room.state, fallback) : null;
+    return retry?.ok ? { ...room, state: retry.value } : null;
+}
+
+export function lobbyView(room: Room, connected: ReadonlySet<string>, spectators = 0): LobbyView {
+    return {
+        code: room.code,
+        hostId: room.hostId,
+        seats: room.seats.map(({ id, name, kind, botLevel }) => ({
+            id,
+            name,
+            kind,
+            ...(botLevel ? { botLevel } : {}),
+            connected: kind === "bot" || connected.has(id),
+        })),
+        started: room.state !== null,
+        spectators,
+    };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import type { BotLink, MatchOptions } from "./match";
+import type { RunnerMessage } from "./protocol";
+import { playMatch } from "./match";
+import { parseBotMessage } from "./protocol";
+import { simulateGame } from "./simulate";
+
+/**
+ * An in-memory bot: `reply` answers each runner message with the lines the bot writes
+ * (none: it stays silent, which the runner sees as a timeout).
+ */
+const fakeBot = (reply: (message: RunnerMessage) => string[]) => {
+    const received: RunnerMessage[] = [];
+    const lines: string[] = [];
+    let closed = false;
+    const link: BotLink = {
+        send(message) {
+            received.push(message);
+            lines.push(...reply(message));
+        },
+        receive: async () => {
+            const line = lines.shift();
+            return line === undefined ? { ok: false, error: "TIMEOUT" } : { ok: true, value: line };
+        },
+        close() {
+            closed = true;
+        },
+    };
+    return { link, received, isClosed: () => closed };
+};
+
+/** Plays the first legal move it is offered */
+const firstLegal = (message: RunnerMessage): string[] => {
+    if (message.type === "HELLO") return [JSON.stringify({ type: "READY", name: "first" })];
+    if (message.type === "TURN") return [JSON.stringify({ type: "ACTION", id: message.id, action: message.legal[0] })];
+    return [];
+};
+
+const options = (bot: ReturnType<typeof fakeBot>, maxFaults = 3): MatchOptions => ({
+    seats: [
+        { kind: "external", name: "fake", connect: () => bot.link },
+        { kind: "builtin", botLevel: "easy" },
+    ],
+    timeoutMs: 100,
+    maxFaults,
+});
+
+describe("match.playMatch", () => {
+    it("plays a full game through the protocol", async () => {
+        const bot = fakeBot(firstLegal);
+        const record = await playMatch(options(bot), 3);
+
+        expect(record.error).toBeUndefined();
+        expect(record.faults).toEqual([]);
+        expect(record.outs).toHaveLength(11);
+        expect(bot.received[0]).toMatchObject({ type: "HELLO", playerId: "P1", timeoutMs: 100 });
+        const turn = bot.received.find((m) => m.type === "TURN");
+        // the bot only ever sees its own view
+        expect(turn).toMatchObject({ type: "TURN", view: { viewerId: "P1" } });
+        expect(JSON.stringify(turn)).not.toContain('"drawPile"');
+        expect(bot.received.at(-1)?.type).toBe("GAME_OVER");
+        expect(bot.isClosed()).toBe(true);
+    });
+
+    it("lets a stand-in move after illegal replies and timeouts, and drops the bot at maxFaults", async () => {
+        let turns = 0;
+        const bot = fakeBot((message) => {
+            if (message.type === "HELLO") return [JSON.stringify({ type: "READY" })];
+            if (message.type !== "TURN") return [];
+            turns++;
+            if (turns === 1) return ["not json"];
+            if (turns === 2) return [JSON.stringify({ type: "ACTION", id: message.id, action: { type: "UNDO" } })];
+            return [];
+        });
+        const record = await playMatch(options(bot), 3);
+
+        expect(record.error).toBeUndefined();
+        expect(record.outs).toHaveLength(11);
+        expect(record.faults.map((f) => [f.seat, f.kind])).toEqual([
+            [0, "ILLEGAL"],
+            [0, "ILLEGAL"],
+            [0, "TIMEOUT"],
+        ]);
+        expect(turns).toBe(3);
+        expect(bot.received.filter((m) => m.type === "REJECTED")).toHaveLength(3);
+        expect(bot.isClosed()).toBe(true);
+    });
+
+    it("skips a late answer to an earlier turn", async () => {
+        let turns = 0;
+        const bot = fakeBot((message) => {
+            if (message.type === "HELLO") return [JSON.stringify({ type: "READY" })];
+            if (message.type !== "TURN") return [];
+            turns++;
+            const stale = JSON.stringify({ type: "ACTION", id: message.id - 1, action: { type: "DRAW_DECK" } });
+            return [...(turns > 1 ? [stale] : []), ...firstLegal(message)];
+        });
+        expect((await playMatch(options(bot), 3)).faults).toEqual([]);
+    });
+
+    it("plays the whole game with the stand-in when the bot does not start", async () => {
+        const bot = fakeBot(() => []);
+        const record = await playMatch(options(bot), 3);
+        expect(record.faults).toEqual([{ seat: 0, kind: "TIMEOUT", detail: "No READY (timeout)" }]);
+        expect(bot.received.map((m) => m.type)).toEqual(["HELLO"]);
+        // same game as two built-in bots: the stand-in is an easy bot on the same random stream
+        expect(record.totals).toEqual(simulateGame({ bots: ["easy", "easy"] }, 3).totals);
+    });
+});
+
+describe("protocol.parseBotMessage", () => {
+    it("checks the envelope only", () => {
+        expect(parseBotMessage('{"type":"ACTION","id":2,"action":{"type":"DISCARD","cardId":"x"}}')).toEqual({
+            type: "ACTION",
+            id: 2,
+            action: { type: "DISCARD", cardId: "x" },
+        });
+        expect(parseBotMessage('{"type":"ACTION","id":"2","action":{"type":"DRAW_DECK"}}')).toBeNull();
+        expect(parseBotMessage('{"type":"ACTION","id":2}')).toBeNull();
+        expect(parseBotMessage("[1]")).toBeNull();
+        expect(parseBotMessage('{"type":"READY","name":"x"}')).toEqual({ type: "READY", name: "x" });
+    });
+});
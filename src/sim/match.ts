@@ -0,0 +1,187 @@
+// src/sim/match.ts
+// Games where some seats are external bot processes (see protocol.ts). The process handling itself
+// lives behind BotLink, so this module stays free of Node APIs (tools/externalBot.ts implements it).
+import type { BotLevel, GameState, SeatConfig } from "../game/state";
+import type { GameAction, Result } from "../game/engine";
+import type { RuleSetOptions } from "../game/rules";
+import { newGame } from "../game/state";
+import { applyAction } from "../game/engine";
+import { isTurnAction, legalActions } from "../game/legal";
+import { viewFor } from "../game/view";
+import type { RunnerMessage } from "./protocol";
+import { BOT_PROTOCOL_VERSION, parseBotMessage } from "./protocol";
+import type { Fault, GameRecord, SimulationStats } from "./simulate";
+import { MAX_ACTIONS_PER_GAME, botRng, emptyRecord, nextAction, recordOf, summarize } from "./simulate";
+
+/** How long a bot may take to start up and answer HELLO */
+export const READY_TIMEOUT_MS = 5000;
+
+/** The level of the built-in bot that moves for an external bot after a fault */
+const STAND_IN_LEVEL: BotLevel = "easy";
+
+/** One external bot for the length of a game */
+export type BotLink = {
+    send(message: RunnerMessage): void;
+    /** The next line the bot writes, or why none came within `timeoutMs` */
+    receive(timeoutMs: number): Promise<Result<string, "TIMEOUT" | "EXITED">>;
+    close(): void;
+};
+
+export type MatchSeat =
+    | { kind: "builtin"; botLevel: BotLevel }
+    | { kind: "external"; name: string; connect: () => BotLink }; // connect is called once per game
+
+export type MatchOptions = {
+    seats: MatchSeat[];
+    rules?: RuleSetOptions;
+    startDiscard?: boolean;
+    timeoutMs: number; // per TURN
+    maxFaults: number; // after this many faults in a game the stand-in plays the seat to the end
+};
+
+type Connection = { seat: number; link: BotLink; faults: number; nextId: number };
+
+export function matchSeatNames(seats: MatchSeat[]): string[] {
+    return seats.map((s, i) => `P${i + 1} ${s.kind === "builtin" ? s.botLevel : s.name}`);
+}
+
+function seatConfigs(seats: MatchSeat[]): SeatConfig[] {
+    const names = matchSeatNames(seats);
+    return seats.map((s, i) => ({
+        name: names[i],
+        kind: "bot",
+        botLevel: s.kind === "builtin" ? s.botLevel : STAND_IN_LEVEL,
+    }));
+}
+
+/**
+ * Record a fault; the bot hears that its reply was not used, and is dropped once it
+ * reaches maxFaults (or has exited). Returns whether it is still connected.
+ */
+function addFault(conn: Connection, fault: Fault, id: number, options: MatchOptions, faults: Fault[]): boolean {
+    faults.push(fault);
+    conn.faults++;
+    if (fault.kind !== "EXITED") conn.link.send({ type: "REJECTED", id, reason: fault.detail });
+    if (fault.kind !== "EXITED" && conn.faults < options.maxFaults) return true;
+    conn.link.close();
+    return false;
+}
+
+/** Start the bot: HELLO must be answered with READY */
+async function handshake(conn: Connection, playerId: string, options: MatchOptions): Promise<Fault | null> {
+    conn.link.send({ type: "HELLO", protocol: BOT_PROTOCOL_VERSION, playerId, timeoutMs: options.timeoutMs });
+    const line = await conn.link.receive(READY_TIMEOUT_MS);
+    if (!line.ok) return { seat: conn.seat, kind: line.error, detail: `No READY (${line.error.toLowerCase()})` };
+    if (parseBotMessage(line.value)?.type !== "READY") {
+        return { seat: conn.seat, kind: "ILLEGAL", detail: `Expected READY, got ${line.value.slice(0, 80)}` };
+    }
+    return null;
+}
+
+/**
+ * Ask the bot for its move. The reply counts if it answers this TURN's id with an action the
+ * engine accepts; answers to earlier (timed out) turns are skipped. Returns a fault otherwise.
+ */
+async function askBot(conn: Connection, state: GameState, id: number, timeoutMs: number): Promise<Result<GameAction, Fault>> {
+    const me = state.players[state.currentPlayerIndex];
+    conn.link.send({ type: "TURN", id, view: viewFor(state, me.id), legal: legalActions(state) });
+
+    const deadline = Date.now() + timeoutMs;
+    const fault = (kind: Fault["kind"], detail: string) => ({ ok: false, error: { seat: conn.seat, kind, detail } }) as const;
+    for (;;) {
+        const line = await conn.link.receive(Math.max(0, deadline - Date.now()));
+        if (!line.ok) return fault(line.error, line.error === "TIMEOUT" ? `No move within ${timeoutMs} ms` : "The bot exited");
+
+        const message = parseBotMessage(line.value);
+        if (!message || message.type !== "ACTION") return fault("ILLEGAL", `Not an ACTION: ${line.value.slice(0, 80)}`);
+        if (message.id !== id) continue;
+
+        const { action } = message;
+        if (!isTurnAction(action)) return fault("ILLEGAL", `${action.type} is not a move`);
+        try {
+            const res = applyAction(state, action);
+            return res.ok ? { ok: true, value: action } : fault("ILLEGAL", `${action.type}: ${res.error.message}`);
+        } catch {
+            return fault("ILLEGAL", `${action.type}: malformed action`);
+        }
+    }
+}
+
+/**
+ * Play one game between built-in and external bots. Never throws: engine problems are reported
+ * as the record's error, and external bots' faults are listed on it (a stand-in moves for them).
+ */
+export async function playMatch(options: MatchOptions, seed: number): Promise<GameRecord> {
+    let state: GameState;
+    try {
+        state = newGame({ seats: seatConfigs(options.seats), seed, rules: options.rules, startDiscard: options.startDiscard });
+    } catch (e) {
+        return { ...emptyRecord(seed), error: e instanceof Error ? e.message : String(e) };
+    }
+    const rng = botRng(seed);
+    const faults: Fault[] = [];
+    const connections = new Map<string, Connection>(); // by player id, while the bot is in the game
+    let actions = 0;
+
+    try {
+        for (const [seat, config] of options.seats.entries()) {
+            if (config.kind !== "external") continue;
+            const conn: Connection = { seat, link: config.connect(), faults: 0, nextId: 1 };
+            const playerId = state.players[seat].id;
+            const fault = await handshake(conn, playerId, options);
+            if (!fault) {
+                connections.set(playerId, conn);
+                continue;
+            }
+            // a bot that does not start plays no part: the stand-in takes the seat for the whole game
+            faults.push(fault);
+            conn.link.close();
+        }
+
+        while (state.status !== "GAME_OVER") {
+            if (actions >= MAX_ACTIONS_PER_GAME) {
+                return recordOf(seed, state, actions, faults, `No result after ${MAX_ACTIONS_PER_GAME} actions (stuck in round ${state.round})`);
+            }
+            const me = state.players[state.currentPlayerIndex];
+            const conn = state.status === "PLAYING" ? connections.get(me.id) : undefined;
+
+            let action: GameAction | null = null;
+            if (conn) {
+                const id = conn.nextId++;
+                const reply = await askBot(conn, state, id, options.timeoutMs);
+                if (reply.ok) action = reply.value;
+                else if (!addFault(conn, reply.error, id, options, faults)) connections.delete(me.id);
+            }
+            action ??= nextAction(state, rng);
+            if (!action) return recordOf(seed, state, actions, faults, "A bot had no move");
+
+            const res = applyAction(state, action);
+            if (!res.ok) {
+                return recordOf(seed, state, actions, faults, `${me.name}: ${action.type} rejected (${res.error.code}: ${res.error.message})`);
+            }
+            state = res.value;
+            actions++;
+        }
+
+        for (const [playerId, conn] of connections) conn.link.send({ type: "GAME_OVER", view: viewFor(state, playerId) });
+        return recordOf(seed, state, actions, faults);
+    } catch (e) {
+        return recordOf(seed, state, actions, faults, e instanceof Error ? e.message : String(e));
+    } finally {
+        for (const conn of connections.values()) conn.link.close();
+    }
+}
+
+/** `simulate` with external bots: games one after another over consecutive seeds */
+export async function runMatches(
+    options: MatchOptions & { games: number; firstSeed: number },
+    onGame?: (record: GameRecord, index: number) => void
+): Promise<SimulationStats> {
+    const records: GameRecord[] = [];
+    for (let i = 0; i < options.games; i++) {
+        const record = await playMatch(options, (options.firstSeed + i) >>> 0);
+        records.push(record);
+        onGame?.(record, i);
+    }
+    return summarize(matchSeatNames(options.seats), records);
+}
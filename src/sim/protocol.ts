@@ -0,0 +1,53 @@
+// src/sim/protocol.ts
+// Line-based JSON protocol between the simulator and an external bot process:
+// one message per line on the bot's stdin / stdout. Anything the bot writes to stderr is ignored.
+import type { GameAction } from "../game/engine";
+import type { TurnAction } from "../game/legal";
+import type { PlayerView } from "../game/view";
+
+/** Sent in HELLO; bumped whenever a message changes shape */
+export const BOT_PROTOCOL_VERSION = 1;
+
+/**
+ * To the bot. Every TURN must be answered with an ACTION carrying the same id;
+ * the other messages need no answer except HELLO (READY).
+ */
+export type RunnerMessage =
+    | { type: "HELLO"; protocol: number; playerId: string; timeoutMs: number }
+    | { type: "TURN"; id: number; view: PlayerView; legal: TurnAction[] } // the bot's own view and every move it may make
+    | { type: "REJECTED"; id: number; reason: string } // the reply to TURN `id` was not used: a stand-in moved instead
+    | { type: "GAME_OVER"; view: PlayerView }; // last message: the bot should exit after it
+
+/** From the bot */
+export type BotMessage =
+    | { type: "READY"; name?: string }
+    | { type: "ACTION"; id: number; action: GameAction };
+
+/**
+ * Decode a line from a bot; null if it is not a message at all.
+ * Only the envelope is checked here: actions are validated by the engine, which is the authority.
+ */
+export function parseBotMessage(line: string): BotMessage | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(line);
+    } catch {
+        return null;
+    }
+    if (typeof data !== "object" || data === null) return null;
+    const message = data as Record<string, unknown>;
+    switch (message.type) {
+        case "READY":
+            return { type: "READY", ...(typeof message.name === "string" ? { name: message.name } : {}) };
+        case "ACTION": {
+            const action = message.action as { type?: unknown } | null;
+            return Number.isInteger(message.id) && typeof action === "object" && action !== null && typeof action.type === "string"
+                ? { type: "ACTION", id: message.id as number, action: action as GameAction }
+                : null;
+        }
+        default:
+            return null;
+    }
+}
+
+export const encodeRunnerMessage = (message: RunnerMessage): string => JSON.stringify(message);
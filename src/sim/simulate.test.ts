@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import type { GameRecord, SimulationOptions } from "./simulate";
+import { simulate, simulateGame, summarize } from "./simulate";
+
+describe("sim.simulate", () => {
+    it("plays full games and is reproducible from the seed range", () => {
+        const options: SimulationOptions = { bots: ["hard", "easy"], games: 2, firstSeed: 7 };
+        const stats = simulate(options);
+
+        expect(stats.failures).toEqual([]);
+        expect(stats.completed).toBe(2);
+        expect(stats.rounds).toBe(22);
+        // every game has at least one winner (more on a tie)
+        expect(stats.seats.reduce((n, s) => n + s.wins, 0)).toBeGreaterThanOrEqual(2);
+        expect(stats.seats.reduce((n, s) => n + s.goOuts, 0) + stats.roundsWithoutOut).toBe(22);
+        expect(stats.turns.min).toBeGreaterThan(0);
+
+        expect(simulate(options)).toEqual(stats);
+    });
+
+    it("reports a game that cannot be set up instead of throwing", () => {
+        const record = simulateGame({ bots: ["easy", "easy"], rules: { decks: 0 } }, 1);
+        expect(record.error).toBeDefined();
+        expect(summarize(["P1 easy", "P2 easy"], [record])).toMatchObject({
+            games: 1,
+            completed: 0,
+            failures: [{ seed: 1, error: record.error }],
+        });
+    });
+
+    it("counts ties as a win for each tied seat", () => {
+        const game = (winners: string[]): GameRecord => ({
+            seed: 0,
+            winners,
+            totals: [10, 10],
+            roundScores: [[10], [10]],
+            outs: [undefined],
+            reshuffles: 1,
+            turns: 4,
+            actions: 12,
+            faults: [],
+        });
+        const stats = summarize(["P1 hard", "P2 easy"], [game(["P1", "P2"]), game(["P1"])]);
+        expect(stats.seats.map((s) => s.wins)).toEqual([2, 1]);
+        expect(stats.seats[1].winRate).toBe(0.5);
+        expect(stats.roundsWithoutOut).toBe(2);
+        expect(stats.reshuffles).toEqual({ total: 2, perGame: 1, max: 1 });
+    });
+});
@@ -0,0 +1,222 @@
+// src/sim/simulate.ts
+// Headless bot-vs-bot games and their statistics (used by `npm run simulate`).
+// Only the game modules are involved: no React, no timers, no I/O.
+import type { BotLevel, GameState, SeatConfig } from "../game/state";
+import type { GameAction } from "../game/engine";
+import type { RuleSetOptions } from "../game/rules";
+import { newGame } from "../game/state";
+import { applyAction } from "../game/engine";
+import { chooseBotAction } from "../game/bot";
+import { deriveSeed, mulberry32 } from "../game/deck";
+import { determineGameWinners } from "../game/scoring";
+
+/** Far more actions than any 11-round game needs: beyond this the bots are stuck in a loop */
+export const MAX_ACTIONS_PER_GAME = 20_000;
+
+/** Salt for the bots' own random stream, so a game seed also fixes every bot decision */
+const BOT_RNG_SALT = 0xB07;
+
+export type SimulationOptions = {
+    bots: BotLevel[]; // one seat per entry, in seat order (2–7)
+    games: number;
+    firstSeed: number; // games use firstSeed, firstSeed + 1, ...
+    rules?: RuleSetOptions;
+    startDiscard?: boolean;
+};
+
+/** One finished (or failed) game */
+export type GameRecord = {
+    seed: number;
+    winners: string[]; // player ids; several on a tie
+    totals: number[]; // final score per seat
+    roundScores: number[][]; // [seat][round]
+    outs: (string | undefined)[]; // per round: who went out (undefined: the cards ran out first)
+    reshuffles: number; // draws that had to shuffle (discard pile recycled, or a fresh deck)
+    turns: number; // discards
+    actions: number;
+    faults: Fault[]; // external bots only (see match.ts)
+    error?: string; // the engine threw, rejected a bot action, or the game never ended
+};
+
+/** An external bot's move that could not be used: a stand-in move was made for it */
+export type Fault = {
+    seat: number;
+    kind: "TIMEOUT" | "ILLEGAL" | "EXITED";
+    detail: string;
+};
+
+export type SeatStats = {
+    seat: number;
+    label: string; // the seat's name, e.g. "P1 hard"
+    wins: number; // ties count as a win for every tied seat
+    winRate: number;
+    averageTotal: number;
+    averageRoundScore: number;
+    goOuts: number;
+    goOutRate: number; // per round played
+    faults: number;
+};
+
+export type SimulationStats = {
+    games: number;
+    completed: number;
+    failures: { seed: number; error: string }[];
+    rounds: number;
+    roundsWithoutOut: number;
+    seats: SeatStats[];
+    reshuffles: { total: number; perGame: number; max: number };
+    turns: { average: number; min: number; max: number };
+    actionsPerGame: number;
+};
+
+function seatsFor(bots: BotLevel[]): SeatConfig[] {
+    return bots.map((botLevel, i) => ({ name: `P${i + 1} ${botLevel}`, kind: "bot", botLevel }));
+}
+
+/** Salted rng for the built-in bots' choices in the game played with `seed` */
+export const botRng = (seed: number) => mulberry32(deriveSeed(seed, BOT_RNG_SALT));
+
+/** The action an all-bot table takes next, or null once the game is over */
+export function nextAction(state: GameState, rng: () => number): GameAction | null {
+    if (state.status === "ROUND_END") return { type: "NEXT_ROUND" };
+    return chooseBotAction(state, rng);
+}
+
+export function recordOf(seed: number, state: GameState, actions: number, faults: Fault[], error?: string): GameRecord {
+    return {
+        seed,
+        winners: state.status === "GAME_OVER" ? determineGameWinners(state.gameScores) : [],
+        totals: state.gameScores.map((g) => g.totalScore),
+        roundScores: state.gameScores.map((g) => g.roundScores),
+        outs: state.roundResults.map((r) => r.outPlayerId),
+        reshuffles: state.log.filter((e) => e.action.type === "DRAW_DECK" && e.seed !== undefined).length,
+        turns: state.log.filter((e) => e.action.type === "DISCARD").length,
+        actions,
+        faults,
+        ...(error === undefined ? {} : { error }),
+    };
+}
+
+export function emptyRecord(seed: number): GameRecord {
+    return { seed, winners: [], totals: [], roundScores: [], outs: [], reshuffles: 0, turns: 0, actions: 0, faults: [] };
+}
+
+/** Play one game to the end. Never throws: whatever goes wrong is reported on the record. */
+export function simulateGame(options: Omit<SimulationOptions, "games" | "firstSeed">, seed: number): GameRecord {
+    let state: GameState;
+    try {
+        state = newGame({ seats: seatsFor(options.bots), seed, rules: options.rules, startDiscard: options.startDiscard });
+    } catch (e) {
+        return { ...emptyRecord(seed), error: e instanceof Error ? e.message : String(e) };
+    }
+    const rng = botRng(seed);
+
+    let actions = 0;
+    try {
+        for (let action = nextAction(state, rng); action; action = nextAction(state, rng)) {
+            if (actions >= MAX_ACTIONS_PER_GAME) {
+                return recordOf(seed, state, actions, [], `No result after ${MAX_ACTIONS_PER_GAME} actions (stuck in round ${state.round})`);
+            }
+            const res = applyAction(state, action);
+            if (!res.ok) {
+                const who = state.players[state.currentPlayerIndex].name;
+                return recordOf(seed, state, actions, [], `${who}: ${action.type} rejected (${res.error.code}: ${res.error.message})`);
+            }
+            state = res.value;
+            actions++;
+        }
+    } catch (e) {
+        return recordOf(seed, state, actions, [], e instanceof Error ? e.message : String(e));
+    }
+    if (state.status !== "GAME_OVER") return recordOf(seed, state, actions, [], "A bot had no move");
+    return recordOf(seed, state, actions, []);
+}
+
+const average = (values: number[]) => (values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length);
+
+/** Aggregate finished games by seat (`labels`: the seat names); failed ones are only listed */
+export function summarize(labels: string[], records: GameRecord[]): SimulationStats {
+    const done = records.filter((r) => r.error === undefined);
+    const rounds = done.reduce((n, r) => n + r.outs.length, 0);
+
+    const seats = labels.map((label, seat): SeatStats => {
+        const id = `P${seat + 1}`;
+        const wins = done.filter((r) => r.winners.includes(id)).length;
+        const goOuts = done.reduce((n, r) => n + r.outs.filter((o) => o === id).length, 0);
+        return {
+            seat,
+            label,
+            wins,
+            winRate: done.length === 0 ? 0 : wins / done.length,
+            averageTotal: average(done.map((r) => r.totals[seat])),
+            averageRoundScore: average(done.flatMap((r) => r.roundScores[seat])),
+            goOuts,
+            goOutRate: rounds === 0 ? 0 : goOuts / rounds,
+            faults: done.reduce((n, r) => n + r.faults.filter((f) => f.seat === seat).length, 0),
+        };
+    });
+
+    const reshuffles = done.map((r) => r.reshuffles);
+    const turns = done.map((r) => r.turns);
+    return {
+        games: records.length,
+        completed: done.length,
+        failures: records.filter((r) => r.error !== undefined).map((r) => ({ seed: r.seed, error: r.error as string })),
+        rounds,
+        roundsWithoutOut: done.reduce((n, r) => n + r.outs.filter((o) => o === undefined).length, 0),
+        seats,
+        reshuffles: { total: reshuffles.reduce((a, b) => a + b, 0), perGame: average(reshuffles), max: Math.max(0, ...reshuffles) },
+        turns: { average: average(turns), min: turns.length ? Math.min(...turns) : 0, max: Math.max(0, ...turns) },
+        actionsPerGame: average(done.map((r) => r.actions)),
+    };
+}
+
+/**
+ * Play `games` games over consecutive seeds and aggregate them.
+ * `onGame` sees each record as it finishes (progress output).
+ */
+export function simulate(options: SimulationOptions, onGame?: (record: GameRecord, index: number) => void): SimulationStats {
+    const records: GameRecord[] = [];
+    for (let i = 0; i < options.games; i++) {
+        const record = simulateGame(options, (options.firstSeed + i) >>> 0);
+        records.push(record);
+        onGame?.(record, i);
+    }
+    return summarize(seatsFor(options.bots).map((s) => s.name), records);
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+/** Plain-text report for the terminal */
+export function formatStats(stats: SimulationStats): string {
+    const width = Math.max(10, ...stats.seats.map((s) => s.label.length));
+    const lines = [
+        `Games: ${stats.completed}/${stats.games} completed, ${stats.rounds} rounds` +
+            (stats.roundsWithoutOut > 0 ? ` (${stats.roundsWithoutOut} ended with nobody out)` : ""),
+        "",
+        `${"Seat".padEnd(width)}   Wins   Win rate  Avg total  Avg/round  Go-outs  Go-out rate`,
+        ...stats.seats.map((s) =>
+            [
+                s.label.padEnd(width),
+                String(s.wins).padStart(6),
+                pct(s.winRate).padStart(10),
+                s.averageTotal.toFixed(1).padStart(10),
+                s.averageRoundScore.toFixed(1).padStart(10),
+                String(s.goOuts).padStart(8),
+                pct(s.goOutRate).padStart(12),
+            ].join(" ")
+        ),
+        "",
+        `Reshuffles: ${stats.reshuffles.total} total, ${stats.reshuffles.perGame.toFixed(2)} per game, max ${stats.reshuffles.max}`,
+        `Game length: ${stats.turns.average.toFixed(1)} turns on average (min ${stats.turns.min}, max ${stats.turns.max}), ` +
+            `${stats.actionsPerGame.toFixed(1)} actions`,
+    ];
+    const faulty = stats.seats.filter((s) => s.faults > 0);
+    if (faulty.length > 0) {
+        lines.push(`Faults (moves made by a stand-in): ${faulty.map((s) => `${s.label} ${s.faults}`).join(", ")}`);
+    }
+    if (stats.failures.length > 0) {
+        lines.push("", `Failures (${stats.failures.length}):`, ...stats.failures.map((f) => `  seed ${f.seed}: ${f.error}`));
+    }
+    return lines.join("\n");
+}
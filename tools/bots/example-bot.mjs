@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+// tools/bots/example-bot.mjs
+// A minimal external bot (protocol: src/sim/protocol.ts). Any language works the same way:
+// read one JSON message per line on stdin, answer HELLO with READY and every TURN with an ACTION.
+//
+//   npm run simulate -- --bots exec,easy --exec "node tools/bots/example-bot.mjs"
+//
+// Strategy: draw from the deck, lay down every meld and lay off it can, then discard the
+// highest-ranked card. stdout is reserved for the protocol: log to stderr.
+import { createInterface } from "node:readline";
+
+const send = (message) => process.stdout.write(`${JSON.stringify(message)}\n`);
+
+function choose(view, legal) {
+    const byType = (type) => legal.filter((a) => a.type === type);
+    if (view.turnPhase === "NEED_DRAW") return byType("DRAW_DECK")[0] ?? legal[0];
+
+    // the largest meld first, so fewer cards are left over
+    const melds = byType("MELD").sort((a, b) => b.cardIds.length - a.cardIds.length);
+    if (melds.length > 0) return melds[0];
+    const layoffs = byType("LAYOFF");
+    if (layoffs.length > 0) return layoffs[0];
+
+    const rank = new Map(view.hand.map((c) => [c.id, c.rank]));
+    const discards = byType("DISCARD").sort((a, b) => rank.get(b.cardId) - rank.get(a.cardId));
+    return discards[0] ?? legal[0];
+}
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+    const message = JSON.parse(line);
+    switch (message.type) {
+        case "HELLO":
+            send({ type: "READY", name: "example-bot" });
+            break;
+        case "TURN":
+            send({ type: "ACTION", id: message.id, action: choose(message.view, message.legal) });
+            break;
+        case "REJECTED":
+            console.error(`example-bot: move ${message.id} rejected: ${message.reason}`);
+            break;
+        case "GAME_OVER":
+            process.exit(0);
+    }
+});
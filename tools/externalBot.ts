@@ -0,0 +1,65 @@
+// tools/externalBot.ts
+// BotLink (src/sim/match.ts) over a child process: runner messages on its stdin, replies on its stdout.
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { BotLink } from "../src/sim/match";
+import { encodeRunnerMessage } from "../src/sim/protocol";
+
+/** How long a bot gets to exit by itself once its input is closed */
+const EXIT_GRACE_MS = 1000;
+
+/** Start `command` through the shell; its stderr goes to ours, so bots can log there */
+export function spawnBot(command: string): BotLink {
+    const child = spawn(command, { shell: true, stdio: ["pipe", "pipe", "inherit"] });
+    const lines: string[] = [];
+    let ended = false; // stdout closed: the bot exited (or never started)
+    let waiting: (() => void) | null = null;
+
+    createInterface({ input: child.stdout })
+        .on("line", (line) => {
+            lines.push(line);
+            waiting?.();
+        })
+        .on("close", () => {
+            ended = true;
+            waiting?.();
+        });
+    // writes to a bot that already exited fail with EPIPE: receive() reports that as EXITED
+    child.stdin.on("error", () => {});
+
+    let closed = false;
+    return {
+        send(message) {
+            if (!closed && !ended) child.stdin.write(`${encodeRunnerMessage(message)}\n`);
+        },
+        receive(timeoutMs) {
+            return new Promise((resolve) => {
+                const settle = (): boolean => {
+                    const line = lines.shift();
+                    if (line !== undefined) resolve({ ok: true, value: line });
+                    else if (ended) resolve({ ok: false, error: "EXITED" });
+                    else return false;
+                    return true;
+                };
+                if (settle()) return;
+                const timer = setTimeout(() => {
+                    waiting = null;
+                    resolve({ ok: false, error: "TIMEOUT" });
+                }, timeoutMs);
+                waiting = () => {
+                    if (!settle()) return;
+                    clearTimeout(timer);
+                    waiting = null;
+                };
+            });
+        },
+        close() {
+            if (closed) return;
+            closed = true;
+            child.stdin.end();
+            if (child.exitCode !== null || child.signalCode !== null) return;
+            const timer = setTimeout(() => child.kill(), EXIT_GRACE_MS);
+            child.once("exit", () => clearTimeout(timer));
+        },
+    };
+}
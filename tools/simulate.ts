@@ -0,0 +1,118 @@
+// tools/simulate.ts
+// Headless simulator: `npm run simulate -- --games 200 --bots hard,easy,easy --seed 1`
+// Plays full games between bots over a seed range and prints aggregate statistics.
+// Seats can also be external bot processes speaking the protocol in src/sim/protocol.ts.
+import { parseArgs } from "node:util";
+import type { BotLevel } from "../src/game/state";
+import type { RuleSetOptions } from "../src/game/rules";
+import { MAX_PLAYERS, MIN_PLAYERS } from "../src/game/state";
+import type { GameRecord } from "../src/sim/simulate";
+import type { MatchSeat } from "../src/sim/match";
+import { formatStats, simulate } from "../src/sim/simulate";
+import { matchSeatNames, runMatches } from "../src/sim/match";
+import { spawnBot } from "./externalBot";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>         games to play (default 100)
+  --seed <n>          first seed; game i uses seed + i (default 1)
+  --bots <list>       one entry per seat, comma separated: easy, hard or exec (default hard,easy)
+  --exec <command>    the program behind the next "exec" seat (repeat for each one)
+  --timeout <ms>      time an external bot has per move (default 1000)
+  --max-faults <n>    timeouts / illegal moves before an external bot is replaced for the game (default 3)
+  --rules <json>      house rules, e.g. '{"decks":1,"drawPileExhausted":"END_ROUND"}'
+  --no-start-discard  deal without a face-up discard
+  --json              print the statistics as JSON
+  --help`;
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+}
+
+function parseCount(text: string, name: string): number {
+    const n = Number(text);
+    if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a non-negative integer`);
+    return n;
+}
+
+/** Seat label for a command: its script's file name, e.g. "my-bot.py" for `python3 bots/my-bot.py` */
+function botName(command: string): string {
+    const script = (command.trim().split(/\s+/).pop() ?? command).split(/[\\/]/).pop() ?? command;
+    return script.length <= 24 ? script : `${script.slice(0, 23)}…`;
+}
+
+const { values } = parseArgs({
+    options: {
+        games: { type: "string", default: "100" },
+        seed: { type: "string", default: "1" },
+        bots: { type: "string", default: "hard,easy" },
+        exec: { type: "string", multiple: true, default: [] },
+        timeout: { type: "string", default: "1000" },
+        "max-faults": { type: "string", default: "3" },
+        rules: { type: "string" },
+        "no-start-discard": { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+    },
+});
+
+if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+
+const bots = values.bots.split(",").map((b) => b.trim());
+if (!bots.every((b): b is BotLevel | "exec" => b === "easy" || b === "hard" || b === "exec")) {
+    fail("--bots takes easy / hard / exec per seat");
+}
+if (bots.length < MIN_PLAYERS || bots.length > MAX_PLAYERS) fail(`--bots needs ${MIN_PLAYERS}–${MAX_PLAYERS} seats`);
+const commands = [...values.exec];
+if (bots.filter((b) => b === "exec").length !== commands.length) fail('Give one --exec per "exec" seat');
+
+let rules: RuleSetOptions | undefined;
+if (values.rules !== undefined) {
+    try {
+        rules = JSON.parse(values.rules) as RuleSetOptions;
+    } catch {
+        fail("--rules must be JSON");
+    }
+}
+
+const games = parseCount(values.games, "games");
+const firstSeed = parseCount(values.seed, "seed");
+const startDiscard = !values["no-start-discard"];
+const seats = bots.map((b): MatchSeat => {
+    if (b !== "exec") return { kind: "builtin", botLevel: b };
+    const command = commands.shift() as string;
+    return { kind: "external", name: botName(command), connect: () => spawnBot(command) };
+});
+const names = matchSeatNames(seats);
+
+const started = Date.now();
+const onGame = (record: GameRecord, i: number) => {
+    for (const f of record.faults) console.error(`seed ${record.seed}: ${names[f.seat]}: ${f.kind} ${f.detail}`);
+    if (record.error) console.error(`seed ${record.seed}: ${record.error}`);
+    if (!values.json && process.stderr.isTTY) process.stderr.write(`\r${i + 1}/${games} games`);
+};
+const stats = seats.every((s) => s.kind === "builtin")
+    ? simulate({ bots: bots as BotLevel[], games, firstSeed, rules, startDiscard }, onGame)
+    : await runMatches(
+          {
+              seats,
+              games,
+              firstSeed,
+              rules,
+              startDiscard,
+              timeoutMs: parseCount(values.timeout, "timeout"),
+              maxFaults: parseCount(values["max-faults"], "max-faults"),
+          },
+          onGame
+      );
+if (!values.json && process.stderr.isTTY) process.stderr.write("\n");
+
+if (values.json) console.log(JSON.stringify(stats, null, 2));
+else console.log(`${formatStats(stats)}\n\n(${((Date.now() - started) / 1000).toFixed(1)}s)`);
+
+// failed games are what this tool is for catching: make them visible to scripts too
+process.exit(stats.failures.length > 0 ? 1 : 0);